@@ -0,0 +1,86 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { Gate, GateResult } from './types.js';
+import { expandGlobs } from './glob.js';
+
+export const DEFAULT_CACHE_DIR = path.join('.ralph-gate', 'cache');
+
+export async function computeCacheKey(
+  gate: Gate,
+  cwd: string = process.cwd(),
+): Promise<string> {
+  const hash = createHash('sha256');
+  hash.update(
+    JSON.stringify({
+      name: gate.name,
+      command: gate.command,
+      cwd: gate.cwd,
+      env: gate.env,
+      envMode: gate.envMode,
+      shell: gate.shell,
+    }),
+  );
+
+  for (const file of await expandGlobs(cwd, gate.inputs ?? [])) {
+    const content = await fs.readFile(path.join(cwd, file));
+    hash.update(`\0file:${file}\0`);
+    hash.update(createHash('sha256').update(content).digest('hex'));
+  }
+
+  for (const name of [...(gate.inputEnv ?? [])].sort()) {
+    hash.update(`\0env:${name}=${process.env[name] ?? ''}`);
+  }
+
+  return hash.digest('hex');
+}
+
+function cacheFilePath(cacheDir: string, key: string): string {
+  return path.join(cacheDir, `${key}.json`);
+}
+
+export async function readCachedResult(
+  cacheDir: string,
+  key: string,
+): Promise<GateResult | null> {
+  try {
+    const raw = await fs.readFile(cacheFilePath(cacheDir, key), 'utf8');
+    const parsed = JSON.parse(raw) as GateResult;
+    return parsed && parsed.passed ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCachedResult(
+  cacheDir: string,
+  key: string,
+  result: GateResult,
+): Promise<void> {
+  try {
+    await fs.mkdir(cacheDir, { recursive: true });
+    // Self-ignoring, so cache entries never show up as working-tree changes
+    await fs.writeFile(path.join(cacheDir, '.gitignore'), '*\n', 'utf8');
+    await fs.writeFile(
+      cacheFilePath(cacheDir, key),
+      JSON.stringify(result, null, 2),
+      'utf8',
+    );
+  } catch {
+    // A cache that can't be written just means the gate runs next time
+  }
+}
+
+export async function clearCache(
+  cacheDir: string = DEFAULT_CACHE_DIR,
+): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(cacheDir);
+  } catch {
+    return 0;
+  }
+  const cached = entries.filter((entry) => entry.endsWith('.json'));
+  await fs.rm(cacheDir, { recursive: true, force: true });
+  return cached.length;
+}
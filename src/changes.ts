@@ -0,0 +1,68 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { Gate } from './types.js';
+import { createPathMatcher } from './glob.js';
+
+const execFileAsync = promisify(execFile);
+
+async function gitLines(cwd: string, args: string[]): Promise<string[]> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return stdout
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+// Staged, unstaged and untracked files relative to cwd (or everything changed
+// since `since`). Null means cwd is not a git repository.
+export async function getChangedFiles(
+  cwd: string = process.cwd(),
+  since?: string,
+): Promise<string[] | null> {
+  let tracked: string[];
+  try {
+    tracked = since
+      ? await gitLines(cwd, ['diff', '--name-only', '--relative', since])
+      : [
+          ...(await gitLines(cwd, [
+            'diff',
+            '--name-only',
+            '--relative',
+            '--cached',
+          ])),
+          ...(await gitLines(cwd, ['diff', '--name-only', '--relative'])),
+        ];
+  } catch (error) {
+    if (since) {
+      throw new Error(
+        `Unable to list changes since '${since}': ${(error as Error).message.trim()}`,
+      );
+    }
+    return null;
+  }
+
+  const untracked = await gitLines(cwd, [
+    'ls-files',
+    '--others',
+    '--exclude-standard',
+  ]).catch(() => []);
+
+  return [...new Set([...tracked, ...untracked])].sort();
+}
+
+export function getUnchangedReason(
+  gate: Gate,
+  changedFiles: string[] | null | undefined,
+): string | null {
+  if (!changedFiles || !gate.paths || gate.paths.length === 0) {
+    return null;
+  }
+  const matches = createPathMatcher(gate.paths);
+  if (changedFiles.some((file) => matches(file))) {
+    return null;
+  }
+  return `no changed files match paths (${gate.paths.join(', ')})`;
+}
@@ -1,44 +1,108 @@
 #!/usr/bin/env node
+import os from 'node:os';
 import path from 'node:path';
-import type { Gate, GateRunSummary } from './types.js';
-import { loadConfig } from './config.js';
-import { initConfigFile } from './init.js';
+import type {
+  Gate,
+  GateReporter,
+  GateRunSummary,
+  HookEvent,
+  HookOutput,
+} from './types.js';
+import { applyProfile, loadConfig, readConfigSource } from './config.js';
+import { formatConfigIssue, validateConfig } from './validate.js';
+import { initConfigFile, type HookScope } from './init.js';
+import { uninstall } from './uninstall.js';
+import { runInitWizard } from './wizard.js';
 import { runGates, type RunGatesOptions } from './runner.js';
+import { getChangedFiles, getUnchangedReason } from './changes.js';
+import { clearCache, DEFAULT_CACHE_DIR } from './cache.js';
 import { formatConsoleOutput, writeResultsFile } from './output.js';
-import { generateHookResponse, outputHookResponse } from './hook.js';
+import {
+  gateRunsOn,
+  generateHookResponse,
+  getEditedFiles,
+  HOOK_EVENTS,
+  outputHookResponse,
+} from './hook.js';
+import { applyLoopGuard, readHookInput } from './guard.js';
+import { REPORTER_TYPES, writeReports } from './reporters.js';
+import { orderGatesAdaptively, type GateEstimate } from './ordering.js';
+import {
+  appendHistory,
+  computeHistoryStats,
+  formatHistory,
+  formatStats,
+  readHistory,
+} from './history.js';
 
 interface CliOptions {
   hook: boolean;
+  hookEvent?: HookEvent;
   dryRun: boolean;
   only?: string;
+  since?: string;
+  workspace?: string;
+  profile?: string;
   verbose: boolean;
+  cache: boolean;
+  reporters: GateReporter[];
 }
 
 interface InitCliOptions {
   force: boolean;
   print: boolean;
   skipHook: boolean;
+  interactive: boolean;
+  scope?: HookScope;
+  hookTimeout?: number;
 }
 
+interface UninstallCliOptions {
+  dryRun: boolean;
+  removeConfig: boolean;
+  removeResults: boolean;
+  scope?: HookScope;
+}
+
+const HOOK_SCOPES: HookScope[] = ['local', 'project', 'user'];
+
 function parseArgs(args: string[]): { options: CliOptions; error?: string } {
   const options: CliOptions = {
     hook: false,
     dryRun: false,
     verbose: false,
+    cache: true,
+    reporters: [],
   };
 
   for (let i = 0; i < args.length; i += 1) {
     const arg = args[i];
     switch (arg) {
-      case '--hook':
+      case '--hook': {
         options.hook = true;
+        // The event is optional: `--hook` alone keeps meaning Stop
+        const value = args[i + 1];
+        if (value && !value.startsWith('-')) {
+          if (!HOOK_EVENTS.includes(value as HookEvent)) {
+            return {
+              options,
+              error: `Unknown hook event: ${value}. Available: ${HOOK_EVENTS.join(', ')}.`,
+            };
+          }
+          options.hookEvent = value as HookEvent;
+          i += 1;
+        }
         break;
+      }
       case '--dry-run':
         options.dryRun = true;
         break;
       case '--verbose':
         options.verbose = true;
         break;
+      case '--no-cache':
+        options.cache = false;
+        break;
       case '--only': {
         const value = args[i + 1];
         if (!value) {
@@ -48,6 +112,60 @@ function parseArgs(args: string[]): { options: CliOptions; error?: string } {
         i += 1;
         break;
       }
+      case '--workspace': {
+        const value = args[i + 1];
+        if (!value) {
+          return { options, error: 'Missing value for --workspace.' };
+        }
+        options.workspace = value;
+        i += 1;
+        break;
+      }
+      case '--profile': {
+        const value = args[i + 1];
+        if (!value) {
+          return { options, error: 'Missing value for --profile.' };
+        }
+        options.profile = value;
+        i += 1;
+        break;
+      }
+      case '--since': {
+        const value = args[i + 1];
+        if (!value) {
+          return { options, error: 'Missing value for --since.' };
+        }
+        options.since = value;
+        i += 1;
+        break;
+      }
+      case '--reporter': {
+        const value = args[i + 1];
+        if (!value) {
+          return { options, error: 'Missing value for --reporter.' };
+        }
+        const separator = value.indexOf('=');
+        const type = value.slice(0, separator);
+        const outputPath = value.slice(separator + 1);
+        if (separator === -1 || outputPath === '') {
+          return {
+            options,
+            error: `Invalid --reporter '${value}': expected <type>=<path>.`,
+          };
+        }
+        if (!REPORTER_TYPES.includes(type as GateReporter['type'])) {
+          return {
+            options,
+            error: `Unknown reporter: ${type}. Available: ${REPORTER_TYPES.join(', ')}.`,
+          };
+        }
+        options.reporters.push({
+          type: type as GateReporter['type'],
+          outputPath,
+        });
+        i += 1;
+        break;
+      }
       default:
         return { options, error: `Unknown argument: ${arg}` };
     }
@@ -56,6 +174,36 @@ function parseArgs(args: string[]): { options: CliOptions; error?: string } {
   return { options };
 }
 
+function parseHistoryArgs(args: string[]): {
+  options: { limit?: number; json: boolean };
+  error?: string;
+} {
+  const options: { limit?: number; json: boolean } = { json: false };
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case '--json':
+        options.json = true;
+        break;
+      case '--limit': {
+        const value = Number(args[i + 1]);
+        if (!Number.isInteger(value) || value <= 0) {
+          return {
+            options,
+            error: 'Invalid value for --limit: expected a positive integer.',
+          };
+        }
+        options.limit = value;
+        i += 1;
+        break;
+      }
+      default:
+        return { options, error: `Unknown argument: ${arg}` };
+    }
+  }
+  return { options };
+}
+
 function parseInitArgs(args: string[]): {
   options: InitCliOptions;
   error?: string;
@@ -64,6 +212,7 @@ function parseInitArgs(args: string[]): {
     force: false,
     print: false,
     skipHook: false,
+    interactive: false,
   };
 
   for (let i = 0; i < args.length; i += 1) {
@@ -78,6 +227,34 @@ function parseInitArgs(args: string[]): {
       case '--skip-hook':
         options.skipHook = true;
         break;
+      case '--interactive':
+        options.interactive = true;
+        break;
+      case '--scope': {
+        const value = args[i + 1];
+        if (!HOOK_SCOPES.includes(value as HookScope)) {
+          return {
+            options,
+            error: `Invalid value for --scope: expected one of ${HOOK_SCOPES.join(', ')}.`,
+          };
+        }
+        options.scope = value as HookScope;
+        i += 1;
+        break;
+      }
+      case '--hook-timeout': {
+        const value = Number(args[i + 1]);
+        if (!Number.isInteger(value) || value <= 0) {
+          return {
+            options,
+            error:
+              'Invalid value for --hook-timeout: expected a positive number of seconds.',
+          };
+        }
+        options.hookTimeout = value;
+        i += 1;
+        break;
+      }
       default:
         return { options, error: `Unknown argument: ${arg}` };
     }
@@ -86,6 +263,60 @@ function parseInitArgs(args: string[]): {
   return { options };
 }
 
+function parseUninstallArgs(args: string[]): {
+  options: UninstallCliOptions;
+  error?: string;
+} {
+  const options: UninstallCliOptions = {
+    dryRun: false,
+    removeConfig: false,
+    removeResults: false,
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--remove-config':
+        options.removeConfig = true;
+        break;
+      case '--remove-results':
+        options.removeResults = true;
+        break;
+      case '--scope': {
+        const value = args[i + 1];
+        if (!HOOK_SCOPES.includes(value as HookScope)) {
+          return {
+            options,
+            error: `Invalid value for --scope: expected one of ${HOOK_SCOPES.join(', ')}.`,
+          };
+        }
+        options.scope = value as HookScope;
+        i += 1;
+        break;
+      }
+      default:
+        return { options, error: `Unknown argument: ${arg}` };
+    }
+  }
+
+  return { options };
+}
+
+// Paths under the project stay relative; user settings show as ~/...
+function displayPath(filePath: string): string {
+  const relative = path.relative(process.cwd(), filePath);
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative;
+  }
+  const home = os.homedir();
+  return filePath.startsWith(home + path.sep)
+    ? `~${filePath.slice(home.length)}`
+    : filePath;
+}
+
 function defaultOutputPath(): string {
   return path.join('gate-results', `gate-results-${process.pid}.json`);
 }
@@ -98,18 +329,78 @@ function createEmptySummary(passed: boolean): GateRunSummary {
     results: [],
     firstFailure: null,
     warnings: [],
+    cached: [],
+    flaky: [],
   };
 }
 
-function formatDryRun(gates: Gate[], shell: string): string {
+// Accepts the package name with or without its npm scope
+function matchesWorkspace(gate: Gate, workspace: string): boolean {
+  if (!gate.workspace) {
+    return false;
+  }
+  return (
+    gate.workspace === workspace ||
+    gate.workspace.split('/').pop() === workspace
+  );
+}
+
+function formatDryRun(
+  gates: Gate[],
+  shell: string,
+  changedFiles?: string[] | null,
+  profile?: string,
+  estimates?: Map<string, GateEstimate>,
+): string {
   const lines = [`SHELL: ${shell}`];
+  if (profile) {
+    lines.push(`PROFILE: ${profile}`);
+  }
+  if (estimates) {
+    lines.push(
+      'ORDERING: adaptive (cheapest expected time to the first failure, within each band)',
+    );
+  }
   if (gates.length === 0) {
     lines.push('No gates to run.');
     return lines.join('\n');
   }
   for (const gate of gates) {
     const order = typeof gate.order === 'number' ? gate.order : 100;
-    lines.push(`- ${gate.name} (order ${order}): ${gate.command}`);
+    const timeout =
+      typeof gate.timeoutMs === 'number' ? `, timeout ${gate.timeoutMs}ms` : '';
+    const deps =
+      gate.dependsOn && gate.dependsOn.length > 0
+        ? `, after ${gate.dependsOn.join(', ')}`
+        : '';
+    const unchangedReason = getUnchangedReason(gate, changedFiles);
+    const skip = unchangedReason ? ` [skip: ${unchangedReason}]` : '';
+    lines.push(
+      `- ${gate.name} (order ${order}${timeout}${deps}): ${gate.command}${skip}`,
+    );
+    const estimate = estimates?.get(gate.name);
+    if (estimate) {
+      lines.push(
+        estimate.runs > 0
+          ? `    history: ~${estimate.costMs}ms, ${Math.round(estimate.failureRate * 100)}% failure chance over ${estimate.runs} run(s)`
+          : '    history: none, assumed typical cost for its band',
+      );
+    }
+    if (gate.events) {
+      lines.push(`    events: ${gate.events.join(', ')}`);
+    }
+    if (gate.cwd) {
+      lines.push(`    cwd: ${gate.cwd}`);
+    }
+    if (gate.shell) {
+      lines.push(`    shell: ${gate.shell}`);
+    }
+    if (gate.env) {
+      const vars = Object.entries(gate.env)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(' ');
+      lines.push(`    env (${gate.envMode ?? 'merge'}): ${vars}`);
+    }
   }
   return lines.join('\n');
 }
@@ -133,14 +424,29 @@ function createHookProgressReporter(
     onGateOutput: (_gate, _stream, text) => {
       process.stderr.write(text);
     },
+    onGateRetry: (gate, failed, attempt) => {
+      writeLine(
+        `${gate.name} failed (exit ${failed.exitCode ?? 'null'}), retrying (attempt ${attempt})`,
+      );
+    },
     onGateComplete: (result) => {
+      if (result.cached) {
+        writeLine(`${result.name} passed (cached)`);
+        return;
+      }
       if (result.skipped) {
-        writeLine(`${result.name} skipped`);
+        const reason = result.skipReason ? ` (${result.skipReason})` : '';
+        writeLine(`${result.name} skipped${reason}`);
         return;
       }
-      const status = result.passed
-        ? `passed in ${result.durationMs}ms`
-        : `failed (exit ${result.exitCode ?? 'null'}) in ${result.durationMs}ms`;
+      let status = result.flaky
+        ? `passed after ${result.attempts?.length ?? 1} attempts (flaky) in ${result.durationMs}ms`
+        : `passed in ${result.durationMs}ms`;
+      if (result.timedOut) {
+        status = `timed out after ${result.durationMs}ms`;
+      } else if (!result.passed) {
+        status = `failed (exit ${result.exitCode ?? 'null'}) in ${result.durationMs}ms`;
+      }
       writeLine(`${result.name} ${status}`);
     },
   };
@@ -157,10 +463,21 @@ async function main(): Promise<void> {
       return;
     }
 
+    // Prompts need a person at a terminal; anything else keeps the defaults
+    const interactive =
+      options.interactive &&
+      process.stdin.isTTY === true &&
+      process.stdout.isTTY === true;
+    if (options.interactive && !interactive) {
+      console.error('Not a terminal; using the detected gates.');
+    }
     const result = await initConfigFile({
       force: options.force,
       print: options.print,
       skipHook: options.skipHook,
+      hookScope: options.scope,
+      hookTimeout: options.hookTimeout,
+      review: interactive ? (choices) => runInitWizard(choices) : undefined,
     });
     if (result.error) {
       console.error(result.error);
@@ -171,9 +488,18 @@ async function main(): Promise<void> {
     for (const warning of result.warnings) {
       console.error(`Warning: ${warning}`);
     }
+    if (result.hookError) {
+      console.error(result.hookError);
+      process.exitCode = 1;
+    }
+    const settings = displayPath(result.hookSettingsPath ?? '');
 
     if (options.print) {
       console.log(JSON.stringify(result.config, null, 2));
+      // stdout stays valid JSON; the planned settings change goes to stderr
+      if (result.hookDiff) {
+        console.error(`Would change ${settings}:\n${result.hookDiff}`);
+      }
       return;
     }
 
@@ -183,13 +509,128 @@ async function main(): Promise<void> {
     if (result.gitignoreUpdated) {
       console.log('Updated .gitignore to exclude gate-results/ folder.');
     }
+    const hooks = (result.hookEvents ?? ['Stop']).join(', ');
     if (result.hookConfigured) {
       console.log(
-        'Added Stop hook to .claude/settings.local.json for automatic gate runs.',
+        `Added ${hooks} hook(s) to ${settings} for automatic gate runs.`,
       );
+      if (result.hookDiff) {
+        console.log(result.hookDiff);
+      }
     } else if (result.hookAlreadyExists) {
-      console.log('Stop hook already exists in .claude/settings.local.json.');
+      console.log(`${hooks} hook(s) already exist in ${settings}.`);
+    }
+    return;
+  }
+
+  if (argv[0] === 'uninstall') {
+    const { options, error } = parseUninstallArgs(argv.slice(1));
+    if (error) {
+      console.error(error);
+      process.exitCode = 1;
+      return;
+    }
+    const result = await uninstall({
+      scopes: options.scope ? [options.scope] : undefined,
+      removeConfig: options.removeConfig,
+      removeResults: options.removeResults,
+      dryRun: options.dryRun,
+    });
+    for (const error of result.errors) {
+      console.error(error);
+    }
+    if (result.errors.length > 0) {
+      process.exitCode = 1;
+    }
+    if (result.actions.length === 0) {
+      if (result.errors.length === 0) {
+        console.log('Nothing to uninstall.');
+      }
+      return;
+    }
+    for (const action of result.actions) {
+      const target = displayPath(action.path);
+      if (action.kind === 'delete') {
+        const verb = options.dryRun ? 'Would delete' : 'Deleted';
+        console.log(`${verb} ${target} (${action.summary}).`);
+      } else {
+        const verb = options.dryRun ? 'Would update' : 'Updated';
+        console.log(`${verb} ${target}: ${action.summary}.`);
+      }
+      if (action.diff) {
+        console.log(action.diff);
+      }
+    }
+    return;
+  }
+
+  if (argv[0] === 'history' || argv[0] === 'stats') {
+    const { options, error } = parseHistoryArgs(argv.slice(1));
+    if (error) {
+      console.error(error);
+      process.exitCode = 1;
+      return;
+    }
+    const entries = await readHistory();
+    if (argv[0] === 'history') {
+      // Listing defaults to the latest runs; stats default to all of them
+      const recent = entries.slice(-(options.limit ?? 20));
+      console.log(
+        options.json ? JSON.stringify(recent, null, 2) : formatHistory(recent),
+      );
+    } else {
+      const stats = computeHistoryStats(
+        options.limit !== undefined ? entries.slice(-options.limit) : entries,
+      );
+      console.log(
+        options.json ? JSON.stringify(stats, null, 2) : formatStats(stats),
+      );
+    }
+    return;
+  }
+
+  if (argv[0] === 'cache') {
+    if (argv[1] !== 'clear' || argv.length > 2) {
+      console.error('Usage: ralph-gate cache clear');
+      process.exitCode = 1;
+      return;
     }
+    const removed = await clearCache(DEFAULT_CACHE_DIR);
+    console.log(`Cleared ${removed} cached gate result(s).`);
+    return;
+  }
+
+  if (argv[0] === 'validate') {
+    if (argv.length > 1) {
+      console.error('Usage: ralph-gate validate');
+      process.exitCode = 1;
+      return;
+    }
+    const source = await readConfigSource();
+    if (source.configPath === undefined) {
+      console.error('No gate config found.');
+      process.exitCode = 1;
+      return;
+    }
+    const label = path.basename(source.configPath);
+    if (source.error !== undefined) {
+      console.error(`${label}: ${source.error}`);
+      process.exitCode = 1;
+      return;
+    }
+    const issues = validateConfig(source.data, source.gateSources);
+    if (issues.length === 0) {
+      console.log(`${label} is valid.`);
+      return;
+    }
+    for (const issue of issues) {
+      console.error(formatConfigIssue(issue));
+    }
+    const errors = issues.filter((issue) => issue.severity === 'error').length;
+    console.error(
+      `${label}: ${errors} error(s), ${issues.length - errors} warning(s).`,
+    );
+    process.exitCode = 1;
     return;
   }
 
@@ -200,6 +641,13 @@ async function main(): Promise<void> {
     return;
   }
 
+  const hookInput = options.hook ? await readHookInput() : null;
+  const payloadEvent = HOOK_EVENTS.find(
+    (event) => event === hookInput?.hook_event_name,
+  );
+  const event: HookEvent = options.hookEvent ?? payloadEvent ?? 'Stop';
+  const editedFiles =
+    event === 'PostToolUse' ? getEditedFiles(hookInput) : undefined;
   const configResult = await loadConfig();
   if (configResult.error) {
     const summary = createEmptySummary(false);
@@ -229,15 +677,80 @@ async function main(): Promise<void> {
     return;
   }
 
-  const config = configResult.config;
+  let config = configResult.config;
+  const profile = options.profile ?? process.env.RALPH_GATE_PROFILE;
+  if (profile) {
+    const profiled = applyProfile(config, profile);
+    if (!profiled.config) {
+      const message = profiled.error ?? `Unknown profile '${profile}'.`;
+      await writeResultsFile(
+        createEmptySummary(false),
+        config.outputPath ?? defaultOutputPath(),
+      );
+      if (options.hook) {
+        outputHookResponse({ decision: 'block', reason: message });
+        process.exitCode = 0;
+        return;
+      }
+      console.error(message);
+      process.exitCode = 1;
+      return;
+    }
+    config = profiled.config;
+  }
   const shellLabel = process.env.SHELL ?? '(default)';
+  // Only stops can loop; PostToolUse runs leave the streak alone
+  const guardStop = async (
+    output: HookOutput,
+    failure: string | null,
+  ): Promise<HookOutput> =>
+    event === 'PostToolUse'
+      ? output
+      : applyLoopGuard(output, failure, hookInput, config.loopGuard);
+
+  // Only pay for the git calls when some gate is change-aware; an explicit
+  // --only always runs its gate
+  const changeAware =
+    !options.only && config.gates.some((gate) => gate.paths?.length);
+  let changedFiles: string[] | null = null;
+  if (changeAware) {
+    // After an edit, "changed" means the file the tool just touched
+    changedFiles =
+      editedFiles ?? (await getChangedFiles(process.cwd(), options.since));
+  }
+
+  let gates = config.gates;
+  if (!options.only) {
+    gates = gates.filter((gate) => gateRunsOn(gate, event));
+  }
+  if (options.workspace) {
+    const workspace = options.workspace;
+    gates = gates.filter((gate) => matchesWorkspace(gate, workspace));
+    if (gates.length === 0) {
+      console.error(`No gates found for workspace: ${workspace}`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  let estimates: Map<string, GateEstimate> | undefined;
+  if (config.ordering === 'adaptive') {
+    const adaptive = orderGatesAdaptively(
+      gates,
+      computeHistoryStats(await readHistory()),
+      config.orderingBand,
+    );
+    gates = adaptive.gates;
+    estimates = adaptive.estimates;
+  }
 
   if (options.dryRun) {
-    console.log(formatDryRun(config.gates, shellLabel));
+    console.log(
+      formatDryRun(gates, shellLabel, changedFiles, profile, estimates),
+    );
     return;
   }
 
-  let gates = config.gates;
   if (options.only) {
     const match = gates.find((gate) => gate.name === options.only);
     if (!match) {
@@ -249,12 +762,24 @@ async function main(): Promise<void> {
   }
 
   const outputPath = config.outputPath ?? defaultOutputPath();
+  const reporters = [...(config.reporters ?? []), ...options.reporters];
+  const reportOptions = {
+    configFile: configResult.configPath
+      ? path.relative(process.cwd(), configResult.configPath)
+      : undefined,
+  };
 
   if (gates.length === 0) {
     const summary = createEmptySummary(true);
     await writeResultsFile(summary, outputPath);
+    await writeReports(summary, reporters, reportOptions);
     if (options.hook) {
-      outputHookResponse({});
+      outputHookResponse(
+        await guardStop(
+          generateHookResponse(summary, event, config.hookOutput),
+          null,
+        ),
+      );
       process.exitCode = 0;
       return;
     }
@@ -265,14 +790,33 @@ async function main(): Promise<void> {
   const hookProgress = createHookProgressReporter(options.hook);
   const summary = await runGates(gates, {
     failFast: config.failFast,
+    timeoutMs: config.timeoutMs,
+    concurrency: config.concurrency,
+    changedFiles,
+    cacheDir: options.cache ? DEFAULT_CACHE_DIR : undefined,
+    env: options.hook
+      ? {
+          RALPH_GATE_EVENT: event,
+          ...(editedFiles?.[0] ? { RALPH_GATE_FILE: editedFiles[0] } : {}),
+        }
+      : undefined,
     verbose: options.verbose && !options.hook,
     ...hookProgress,
   });
 
   await writeResultsFile(summary, outputPath);
+  await writeReports(summary, reporters, reportOptions);
+  if (config.history !== false) {
+    await appendHistory(summary, { profile });
+  }
 
   if (options.hook) {
-    outputHookResponse(generateHookResponse(summary));
+    outputHookResponse(
+      await guardStop(
+        generateHookResponse(summary, event, config.hookOutput),
+        summary.firstFailure?.name ?? null,
+      ),
+    );
     process.exitCode = 0;
     return;
   }
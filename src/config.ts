@@ -1,8 +1,34 @@
 import { promises as fs } from 'node:fs';
+import { createRequire } from 'node:module';
 import path from 'node:path';
-import type { Gate, GateConfig } from './types.js';
+import { pathToFileURL } from 'node:url';
+import type { ConfigContext, ConfigExport, Gate, GateConfig } from './types.js';
+import { getChangedFiles } from './changes.js';
+import {
+  validateConfig,
+  type ConfigIssue,
+  type GateSource,
+} from './validate.js';
 
-const CONFIG_FILES = ['gate.config.json', '.gaterc.json', '.gaterc'];
+export const CONFIG_FILES = [
+  'gate.config.json',
+  '.gaterc.json',
+  '.gaterc',
+  'gate.config.mjs',
+  'gate.config.js',
+  'gate.config.ts',
+];
+
+const MODULE_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.ts', '.mts']);
+
+interface TypeScriptCompiler {
+  transpileModule(
+    input: string,
+    options: { compilerOptions: Record<string, unknown>; fileName?: string },
+  ): { outputText: string };
+  ModuleKind: { ESNext: number };
+  ScriptTarget: { ES2022: number };
+}
 
 export interface LoadConfigResult {
   config: GateConfig | null;
@@ -10,7 +36,7 @@ export interface LoadConfigResult {
   error?: string;
 }
 
-function normalizeGate(gate: Gate): Gate {
+function normalizeGate(gate: Gate, configDir: string): Gate {
   const order = typeof gate.order === 'number' ? gate.order : 100;
   const enabled = typeof gate.enabled === 'boolean' ? gate.enabled : true;
   const blocking = typeof gate.blocking === 'boolean' ? gate.blocking : true;
@@ -22,26 +48,47 @@ function normalizeGate(gate: Gate): Gate {
     blocking,
     description:
       typeof gate.description === 'string' ? gate.description : undefined,
+    // Relative working directories are anchored to the config file
+    cwd:
+      typeof gate.cwd === 'string'
+        ? path.resolve(configDir, gate.cwd)
+        : undefined,
     name: gate.name,
     command: gate.command,
   } as Gate;
 }
 
-function validateGate(gate: unknown): string | null {
-  if (!gate || typeof gate !== 'object') {
-    return 'Gate entries must be objects.';
-  }
-  const maybeGate = gate as Gate;
-  if (typeof maybeGate.name !== 'string' || maybeGate.name.trim() === '') {
-    return 'Gate is missing required field: name.';
+// Narrows a loaded config to one profile's gates and settings. A profile
+// without `gates` or `tags` keeps every gate.
+export function applyProfile(
+  config: GateConfig,
+  name: string,
+): { config: GateConfig | null; error?: string } {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const known = Object.keys(config.profiles ?? {});
+    const hint = known.length > 0 ? ` Available: ${known.join(', ')}.` : '';
+    return { config: null, error: `Unknown profile '${name}'.${hint}` };
   }
-  if (
-    typeof maybeGate.command !== 'string' ||
-    maybeGate.command.trim() === ''
-  ) {
-    return `Gate '${maybeGate.name}' is missing required field: command.`;
-  }
-  return null;
+
+  const names = new Set(profile.gates ?? []);
+  const tags = new Set(profile.tags ?? []);
+  const selectsAll = !profile.gates && !profile.tags;
+  const gates = config.gates.filter(
+    (gate) =>
+      selectsAll ||
+      names.has(gate.name) ||
+      (gate.tags ?? []).some((tag) => tags.has(tag)),
+  );
+
+  return {
+    config: {
+      ...config,
+      gates,
+      failFast: profile.failFast ?? config.failFast,
+      timeoutMs: profile.timeoutMs ?? config.timeoutMs,
+    },
+  };
 }
 
 function sortGates(gates: Gate[]): Gate[] {
@@ -57,89 +104,361 @@ function sortGates(gates: Gate[]): Gate[] {
   return withIndex.map((entry) => entry.gate);
 }
 
-export async function loadConfig(
-  cwd: string = process.cwd(),
-): Promise<LoadConfigResult> {
-  for (const filename of CONFIG_FILES) {
-    const filePath = path.join(cwd, filename);
-    try {
-      await fs.access(filePath);
-    } catch {
-      continue;
+type ReadResult =
+  | { data: Record<string, unknown>; error?: undefined }
+  | { data?: undefined; error: string };
+
+export function defineConfig<T extends ConfigExport>(config: T): T {
+  return config;
+}
+
+function isCI(): boolean {
+  const value = process.env.CI;
+  return (
+    Boolean(value) && !['0', 'false'].includes(String(value).toLowerCase())
+  );
+}
+
+// Used when Node can't strip types itself: compile with the project's own
+// TypeScript and import the result from next to the original file, so its
+// relative imports still resolve
+async function importTranspiledTypeScript(filePath: string): Promise<unknown> {
+  let ts: TypeScriptCompiler;
+  try {
+    ts = createRequire(filePath)('typescript') as TypeScriptCompiler;
+  } catch {
+    throw new Error(
+      `loading ${path.basename(filePath)} needs a Node.js version with type stripping or 'typescript' installed in the project`,
+    );
+  }
+
+  const source = await fs.readFile(filePath, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}-${Date.now()}.mjs`,
+  );
+  await fs.writeFile(tempPath, outputText, 'utf8');
+  try {
+    return await import(pathToFileURL(tempPath).href);
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
+
+async function importConfigModule(filePath: string): Promise<unknown> {
+  try {
+    return await import(pathToFileURL(filePath).href);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (!/\.m?ts$/.test(filePath) || code !== 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw error;
     }
+  }
+  return importTranspiledTypeScript(filePath);
+}
+
+async function evaluateConfigModule(
+  filePath: string,
+  label: string,
+): Promise<ReadResult> {
+  let exported: unknown;
+  try {
+    const mod = (await importConfigModule(filePath)) as { default?: unknown };
+    exported = mod.default ?? mod;
+  } catch (error) {
+    return { error: `unable to load ${label}: ${(error as Error).message}` };
+  }
 
-    let raw: string;
+  if (typeof exported === 'function') {
+    const cwd = path.dirname(filePath);
+    const context: ConfigContext = {
+      cwd,
+      changedFiles: await getChangedFiles(cwd),
+      ci: isCI(),
+    };
     try {
-      raw = await fs.readFile(filePath, 'utf8');
+      exported = await (exported as (ctx: ConfigContext) => unknown)(context);
     } catch (error) {
       return {
-        config: null,
-        configPath: filePath,
-        error: `Invalid config: unable to read ${filename}: ${(error as Error).message}`,
+        error: `config function in ${label} threw: ${(error as Error).message}`,
       };
     }
+  }
+
+  if (!exported || typeof exported !== 'object' || Array.isArray(exported)) {
+    return { error: `expected ${label} to export a config object.` };
+  }
+  return { data: exported as Record<string, unknown> };
+}
+
+async function readConfigObject(
+  filePath: string,
+  label: string,
+): Promise<ReadResult> {
+  if (MODULE_EXTENSIONS.has(path.extname(filePath))) {
+    return evaluateConfigModule(filePath, label);
+  }
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    return {
+      error: `unable to read ${label}: ${(error as Error).message}`,
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return {
+      error: `malformed JSON in ${label}: ${(error as Error).message}`,
+    };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { error: `expected object in ${label}.` };
+  }
+  return { data: parsed as Record<string, unknown> };
+}
+
+async function loadBaseConfig(
+  spec: string,
+  fromFile: string,
+): Promise<ReadResult & { filePath?: string }> {
+  let filePath: string;
+  const isPath =
+    spec.startsWith('./') || spec.startsWith('../') || path.isAbsolute(spec);
+  try {
+    filePath = isPath
+      ? path.resolve(path.dirname(fromFile), spec)
+      : createRequire(fromFile).resolve(spec);
+    await fs.access(filePath);
+  } catch {
+    return {
+      error: `cannot find base config '${spec}' (extended from ${path.basename(fromFile)}).`,
+    };
+  }
+
+  return { ...(await readConfigObject(filePath, spec)), filePath };
+}
+
+function mergeGates(base: unknown[], overrides: unknown[]): unknown[] {
+  const merged = [...base];
+  for (const gate of overrides) {
+    const name = (gate as Gate | null)?.name;
+    const index = merged.findIndex(
+      (existing) =>
+        typeof name === 'string' && (existing as Gate | null)?.name === name,
+    );
+    if (index === -1) {
+      merged.push(gate);
+    } else {
+      merged[index] = { ...(merged[index] as Gate), ...(gate as Gate) };
+    }
+  }
+  return merged;
+}
+
+// Relative gate cwds belong to the file that declared them, so pin them
+// before the gates move into another config
+function anchorGateCwds(gates: unknown, filePath: string): unknown[] {
+  if (!Array.isArray(gates)) {
+    return [];
+  }
+  return gates.map((gate) => {
+    const cwd = (gate as Gate | null)?.cwd;
+    return typeof cwd === 'string'
+      ? { ...(gate as Gate), cwd: path.resolve(path.dirname(filePath), cwd) }
+      : gate;
+  });
+}
 
-    let parsed: unknown;
+async function resolveExtends(
+  data: Record<string, unknown>,
+  filePath: string,
+  chain: string[],
+  sources: GateSource[],
+): Promise<ReadResult> {
+  const { extends: extendsField, ...own } = data;
+  sources.push({
+    file: path.relative(path.dirname(chain[0] as string), filePath),
+    gates: own.gates,
+  });
+  if (extendsField === undefined) {
+    return { data: own };
+  }
+
+  const specs = Array.isArray(extendsField) ? extendsField : [extendsField];
+  if (specs.some((spec) => typeof spec !== 'string' || spec === '')) {
+    return {
+      error: `'extends' must be a string or an array of strings in ${path.basename(filePath)}.`,
+    };
+  }
+
+  let merged: Record<string, unknown> = {};
+  for (const spec of specs as string[]) {
+    const base = await loadBaseConfig(spec, filePath);
+    if (base.error !== undefined) {
+      return { error: base.error };
+    }
+    const baseFile = base.filePath as string;
+    if (chain.includes(baseFile)) {
+      const cycle = [...chain, baseFile]
+        .map((file) => path.basename(file))
+        .join(' -> ');
+      return { error: `circular extends: ${cycle}.` };
+    }
+
+    const resolved = await resolveExtends(
+      base.data,
+      baseFile,
+      [...chain, baseFile],
+      sources,
+    );
+    if (resolved.error !== undefined) {
+      return resolved;
+    }
+    merged = {
+      ...merged,
+      ...resolved.data,
+      gates: mergeGates(
+        (merged.gates as unknown[] | undefined) ?? [],
+        anchorGateCwds(resolved.data.gates, baseFile),
+      ),
+    };
+  }
+
+  return {
+    data: {
+      ...merged,
+      ...own,
+      gates: mergeGates(
+        (merged.gates as unknown[] | undefined) ?? [],
+        Array.isArray(own.gates) ? own.gates : [],
+      ),
+    },
+  };
+}
+
+export interface ConfigSource {
+  configPath?: string;
+  data?: Record<string, unknown>;
+  // Each file's own gates, for checks that need to point into that file
+  gateSources?: GateSource[];
+  error?: string;
+}
+
+// Finds the config file and returns its contents with `extends` resolved,
+// before any validation
+export async function readConfigSource(
+  cwd: string = process.cwd(),
+): Promise<ConfigSource> {
+  for (const filename of CONFIG_FILES) {
+    const filePath = path.join(cwd, filename);
     try {
-      parsed = JSON.parse(raw);
-    } catch (error) {
-      return {
-        config: null,
-        configPath: filePath,
-        error: `Invalid config: malformed JSON in ${filename}: ${(error as Error).message}`,
-      };
+      await fs.access(filePath);
+    } catch {
+      continue;
     }
 
-    if (!parsed || typeof parsed !== 'object') {
-      return {
-        config: null,
-        configPath: filePath,
-        error: `Invalid config: expected object in ${filename}.`,
-      };
+    const read = await readConfigObject(filePath, filename);
+    if (read.error !== undefined) {
+      return { configPath: filePath, error: read.error };
     }
 
-    const config = parsed as GateConfig;
-    if (!Array.isArray(config.gates)) {
+    const hasOwnGates = Array.isArray(read.data.gates);
+    const gateSources: GateSource[] = [];
+    const resolved = await resolveExtends(
+      read.data,
+      filePath,
+      [filePath],
+      gateSources,
+    );
+    if (resolved.error !== undefined) {
+      return { configPath: filePath, error: resolved.error };
+    }
+    if (!hasOwnGates && read.data.extends === undefined) {
       return {
-        config: null,
         configPath: filePath,
-        error: `Invalid config: missing required 'gates' array in ${filename}.`,
+        error: `missing required 'gates' array in ${filename}.`,
       };
     }
+    return { configPath: filePath, data: resolved.data, gateSources };
+  }
 
-    const normalized: Gate[] = [];
-    for (const gate of config.gates) {
-      const gateError = validateGate(gate as Gate);
-      if (gateError) {
-        return {
-          config: null,
-          configPath: filePath,
-          error: `Invalid config: ${gateError}`,
-        };
-      }
-      const normalizedGate = normalizeGate(gate as Gate);
-      if (normalizedGate.enabled === false) {
-        continue;
-      }
-      normalized.push(normalizedGate);
-    }
-
-    const failFast =
-      typeof config.failFast === 'boolean' ? config.failFast : true;
-    const outputPath =
-      typeof config.outputPath === 'string' ? config.outputPath : undefined;
+  return {};
+}
 
-    const sorted = sortGates(normalized);
+export async function loadConfig(
+  cwd: string = process.cwd(),
+): Promise<LoadConfigResult> {
+  const source = await readConfigSource(cwd);
+  const filePath = source.configPath;
+  if (filePath === undefined) {
+    return { config: null };
+  }
+  if (source.error !== undefined || source.data === undefined) {
+    return {
+      config: null,
+      configPath: filePath,
+      error: `Invalid config: ${source.error}`,
+    };
+  }
 
+  // Unknown fields, duplicate names and values normalizeGate fixes up only
+  // fail `ralph-gate validate`, not the run itself
+  const errors = validateConfig(source.data, source.gateSources, {
+    lenient: true,
+  }).filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    const [first] = errors as [ConfigIssue];
+    const more =
+      errors.length > 1
+        ? ` (${errors.length - 1} more; run 'ralph-gate validate' to list them)`
+        : '';
     return {
-      config: {
-        gates: sorted,
-        failFast,
-        outputPath,
-      },
+      config: null,
       configPath: filePath,
+      error: `Invalid config: ${first.message}${more}`,
     };
   }
 
-  return { config: null };
+  const config = source.data as unknown as GateConfig;
+  const normalized = config.gates
+    .map((gate) => normalizeGate(gate, path.dirname(filePath)))
+    .filter((gate) => gate.enabled !== false);
+
+  const failFast =
+    typeof config.failFast === 'boolean' ? config.failFast : true;
+  const outputPath =
+    typeof config.outputPath === 'string' ? config.outputPath : undefined;
+
+  const sorted = sortGates(normalized);
+
+  return {
+    config: {
+      gates: sorted,
+      failFast,
+      outputPath,
+      timeoutMs: config.timeoutMs,
+      concurrency: config.concurrency,
+      profiles: config.profiles,
+      reporters: config.reporters,
+      history: config.history,
+      ordering: config.ordering,
+      orderingBand: config.orderingBand,
+      loopGuard: config.loopGuard,
+      hookOutput: config.hookOutput,
+    },
+    configPath: filePath,
+  };
 }
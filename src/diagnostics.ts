@@ -0,0 +1,296 @@
+import path from 'node:path';
+import type { Diagnostic, DiagnosticParser, Gate } from './types.js';
+
+type Parser = (lines: string[]) => Diagnostic[];
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+const DETECTORS: Array<[Exclude<DiagnosticParser, 'none'>, RegExp]> = [
+  ['tsc', /\b(?:vue-)?tsc\b/],
+  ['eslint', /\beslint\b/],
+  ['vitest', /\bvitest\b/],
+  ['jest', /\bjest\b/],
+  ['pytest', /\bpytest\b/],
+  ['ruff', /\bruff\b/],
+  ['mypy', /\bmypy\b/],
+];
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function parseTsc(lines: string[]): Diagnostic[] {
+  // Plain `file(1,2): error TS1: ...` and --pretty `file:1:2 - error TS1: ...`
+  const pattern =
+    /^(.+?)(?:\((\d+),(\d+)\)|:(\d+):(\d+))\s*[:-]\s*error\s+(TS\d+):\s*(.+)$/;
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const match = pattern.exec(line);
+    if (match) {
+      diagnostics.push({
+        file: match[1] as string,
+        line: toNumber(match[2] ?? match[4]),
+        column: toNumber(match[3] ?? match[5]),
+        message: match[7] as string,
+        rule: match[6],
+      });
+    }
+  }
+  return diagnostics;
+}
+
+function parseEslint(lines: string[]): Diagnostic[] {
+  const unixPattern = /^(.+?):(\d+):(\d+): (.+?) \[(?:Error|Warning)\/(.+)\]$/;
+  const stylishPattern = /^\s+(\d+):(\d+)\s+(?:error|warning)\s+(.+)$/;
+  const diagnostics: Diagnostic[] = [];
+  let file: string | null = null;
+  for (const line of lines) {
+    const unix = unixPattern.exec(line);
+    if (unix) {
+      diagnostics.push({
+        file: unix[1] as string,
+        line: toNumber(unix[2]),
+        column: toNumber(unix[3]),
+        message: unix[4] as string,
+        rule: unix[5],
+      });
+      continue;
+    }
+    // The stylish formatter prints the file once, then indented problems
+    const stylish = stylishPattern.exec(line);
+    if (stylish && file) {
+      const parts = (stylish[3] as string).trim().split(/\s{2,}/);
+      const rule =
+        parts.length > 1 && /^[@\w/-]+$/.test(parts[parts.length - 1] as string)
+          ? parts.pop()
+          : undefined;
+      diagnostics.push({
+        file,
+        line: toNumber(stylish[1]),
+        column: toNumber(stylish[2]),
+        message: parts.join(' '),
+        rule,
+      });
+      continue;
+    }
+    if (/^\S/.test(line) && !/^[✖✔]/.test(line)) {
+      file = line.trim();
+    }
+  }
+  return diagnostics;
+}
+
+function parseVitest(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  let current: Diagnostic | null = null;
+  let needsMessage = false;
+  for (const line of lines) {
+    const fail = /^\s*FAIL\s+(\S+)(?:\s+>\s+(.+)|\s+\[.*\])?$/.exec(line);
+    if (fail) {
+      current = { file: fail[1] as string, message: fail[2] ?? 'failed' };
+      needsMessage = true;
+      diagnostics.push(current);
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    if (/^⎯/.test(line.trim())) {
+      current = null;
+      continue;
+    }
+    const error = /^([A-Z]\w*(?:Error|Exception)):\s*(.+)$/.exec(line.trim());
+    if (error && needsMessage) {
+      current.message = `${current.message}: ${error[2]}`;
+      current.rule = error[1];
+      needsMessage = false;
+      continue;
+    }
+    const location = /^\s*❯\s+(.+?):(\d+):(\d+)/.exec(line);
+    if (
+      location &&
+      current.line === undefined &&
+      location[1] === current.file
+    ) {
+      current.line = toNumber(location[2]);
+      current.column = toNumber(location[3]);
+    }
+  }
+  return diagnostics;
+}
+
+function parseJest(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  let file: string | null = null;
+  let current: Diagnostic | null = null;
+  let needsMessage = false;
+  for (const line of lines) {
+    const fail = /^\s*FAIL\s+(\S+)(?:\s+\(.*\))?\s*$/.exec(line);
+    if (fail) {
+      file = fail[1] as string;
+      current = null;
+      continue;
+    }
+    if (/^\s*(?:PASS\s|Test Suites:)/.test(line)) {
+      file = null;
+      current = null;
+      continue;
+    }
+    const test = /^\s*●\s+(.+)$/.exec(line);
+    if (test && file) {
+      current = { file, message: (test[1] as string).trim() };
+      needsMessage = true;
+      diagnostics.push(current);
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    if (needsMessage && line.trim() !== '') {
+      current.message = `${current.message}: ${line.trim()}`;
+      needsMessage = false;
+      continue;
+    }
+    const frame = /\(?([^\s()]+):(\d+):(\d+)\)?\s*$/.exec(line);
+    if (
+      frame &&
+      /^\s*at\s/.test(line) &&
+      current.line === undefined &&
+      (frame[1] as string).endsWith(current.file)
+    ) {
+      current.line = toNumber(frame[2]);
+      current.column = toNumber(frame[3]);
+    }
+  }
+  return diagnostics;
+}
+
+function parsePytest(lines: string[]): Diagnostic[] {
+  // Traceback locations come in the same order as the summary entries
+  const locations = new Map<string, number[]>();
+  for (const line of lines) {
+    const location = /^(\S+\.py):(\d+): \w+/.exec(line);
+    if (location) {
+      const queue = locations.get(location[1] as string) ?? [];
+      queue.push(Number(location[2]));
+      locations.set(location[1] as string, queue);
+    }
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const summary =
+      /^(?:FAILED|ERROR)\s+(\S+?)(?:::(\S+))?(?:\s+-\s+(.+))?$/.exec(line);
+    if (!summary) {
+      continue;
+    }
+    const file = summary[1] as string;
+    const message = [summary[2], summary[3]].filter(Boolean).join(': ');
+    diagnostics.push({
+      file,
+      line: summary[2] ? locations.get(file)?.shift() : undefined,
+      message: message || 'error',
+    });
+  }
+  return diagnostics;
+}
+
+function parseRuff(lines: string[]): Diagnostic[] {
+  const concisePattern = /^(.+?):(\d+):(\d+): ([A-Z]+\d+) (?:\[\*\] )?(.+)$/;
+  const diagnostics: Diagnostic[] = [];
+  let pending: { rule: string; message: string } | null = null;
+  for (const line of lines) {
+    const concise = concisePattern.exec(line);
+    if (concise) {
+      diagnostics.push({
+        file: concise[1] as string,
+        line: toNumber(concise[2]),
+        column: toNumber(concise[3]),
+        message: concise[5] as string,
+        rule: concise[4],
+      });
+      pending = null;
+      continue;
+    }
+    // Newer full output puts the rule first and the location on an arrow line
+    const header = /^([A-Z]+\d+) (?:\[\*\] )?(.+)$/.exec(line);
+    if (header) {
+      pending = { rule: header[1] as string, message: header[2] as string };
+      continue;
+    }
+    const location = /^\s*-->\s*(.+?):(\d+):(\d+)/.exec(line);
+    if (location && pending) {
+      diagnostics.push({
+        file: location[1] as string,
+        line: toNumber(location[2]),
+        column: toNumber(location[3]),
+        ...pending,
+      });
+      pending = null;
+    }
+  }
+  return diagnostics;
+}
+
+function parseMypy(lines: string[]): Diagnostic[] {
+  const pattern = /^(.+?):(\d+)(?::(\d+))?: error: (.+?)(?:\s+\[([\w-]+)\])?$/;
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const match = pattern.exec(line);
+    if (match) {
+      diagnostics.push({
+        file: match[1] as string,
+        line: toNumber(match[2]),
+        column: toNumber(match[3]),
+        message: match[4] as string,
+        rule: match[5],
+      });
+    }
+  }
+  return diagnostics;
+}
+
+const PARSERS: Record<Exclude<DiagnosticParser, 'none'>, Parser> = {
+  tsc: parseTsc,
+  eslint: parseEslint,
+  vitest: parseVitest,
+  jest: parseJest,
+  pytest: parsePytest,
+  ruff: parseRuff,
+  mypy: parseMypy,
+};
+
+export function detectParser(command: string): DiagnosticParser {
+  const match = DETECTORS.find(([, pattern]) => pattern.test(command));
+  return match ? match[0] : 'none';
+}
+
+// Extracts diagnostics from a gate's output, with file paths relative to
+// `rootDir` so gates running in subdirectories point at the right files
+export function parseDiagnostics(
+  gate: Gate,
+  output: string,
+  rootDir: string = process.cwd(),
+): Diagnostic[] {
+  const parser = gate.parser ?? detectParser(gate.command);
+  if (parser === 'none') {
+    return [];
+  }
+
+  const lines = output.replace(ANSI_PATTERN, '').split(/\r?\n/);
+  const gateDir = gate.cwd ? path.resolve(rootDir, gate.cwd) : rootDir;
+  const seen = new Set<string>();
+  const diagnostics: Diagnostic[] = [];
+  for (const diagnostic of PARSERS[parser](lines)) {
+    const file = path.relative(rootDir, path.resolve(gateDir, diagnostic.file));
+    const key = [file, diagnostic.line, diagnostic.column, diagnostic.message]
+      .map(String)
+      .join('\u0000');
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    diagnostics.push({ ...diagnostic, file });
+  }
+  return diagnostics;
+}
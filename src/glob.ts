@@ -0,0 +1,129 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+function escapeRegExp(char: string): string {
+  return /[.+^$()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  const trimmed = normalized.endsWith('/')
+    ? normalized.slice(0, -1)
+    : normalized;
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < trimmed.length; i += 1) {
+    const char = trimmed[i] as string;
+    if (char === '*') {
+      if (trimmed[i + 1] === '*') {
+        if (trimmed[i + 2] === '/') {
+          // '**/' matches zero or more whole directories
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  // A pattern naming a directory also matches everything beneath it
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+export function createPathMatcher(
+  patterns: string[],
+): (filePath: string) => boolean {
+  const include: RegExp[] = [];
+  const exclude: RegExp[] = [];
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      exclude.push(globToRegExp(pattern.slice(1)));
+    } else {
+      include.push(globToRegExp(pattern));
+    }
+  }
+
+  return (filePath: string) => {
+    const normalized = filePath.replace(/\\/g, '/');
+    return (
+      include.some((regex) => regex.test(normalized)) &&
+      !exclude.some((regex) => regex.test(normalized))
+    );
+  };
+}
+
+const GLOB_CHARS = /[*?{]/;
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+function staticBase(pattern: string): string {
+  const segments = pattern.replace(/\\/g, '/').replace(/^\.\//, '').split('/');
+  const base: string[] = [];
+  for (const segment of segments) {
+    if (GLOB_CHARS.test(segment)) {
+      break;
+    }
+    base.push(segment);
+  }
+  return base.join('/');
+}
+
+async function walk(
+  cwd: string,
+  relative: string,
+  files: Set<string>,
+): Promise<void> {
+  const absolute = path.join(cwd, relative);
+  let stat;
+  try {
+    stat = await fs.stat(absolute);
+  } catch {
+    return;
+  }
+  if (stat.isFile()) {
+    files.add(relative);
+    return;
+  }
+  if (!stat.isDirectory()) {
+    return;
+  }
+  const entries = await fs.readdir(absolute, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.isDirectory() && SKIPPED_DIRS.has(entry.name)) {
+      continue;
+    }
+    await walk(cwd, relative ? `${relative}/${entry.name}` : entry.name, files);
+  }
+}
+
+// Files under cwd matching the patterns, relative and sorted. Only the static
+// prefix of each pattern is walked; .git and node_modules are never entered.
+export async function expandGlobs(
+  cwd: string,
+  patterns: string[],
+): Promise<string[]> {
+  const matches = createPathMatcher(patterns);
+  const candidates = new Set<string>();
+  for (const pattern of patterns) {
+    if (!pattern.startsWith('!')) {
+      await walk(cwd, staticBase(pattern), candidates);
+    }
+  }
+  return [...candidates].filter((file) => matches(file)).sort();
+}
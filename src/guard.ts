@@ -0,0 +1,186 @@
+import { spawn } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { HookInput, HookOutput, LoopGuard } from './types.js';
+
+export const DEFAULT_SESSION_STATE_PATH = path.join(
+  '.ralph-gate',
+  'sessions.json',
+);
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const NOTIFY_TIMEOUT_MS = 10_000;
+
+interface SessionState {
+  consecutiveBlocks: number;
+  lastFailure: string | null;
+  updatedAt: string;
+}
+
+type SessionStore = Record<string, SessionState>;
+
+// Claude Code pipes the hook payload on stdin; a terminal or a pipe that
+// never closes means there is none
+export async function readHookInput(
+  stream: NodeJS.ReadStream = process.stdin,
+  timeoutMs = 1000,
+): Promise<HookInput | null> {
+  if (stream.isTTY) {
+    return null;
+  }
+
+  const raw = await new Promise<string>((resolve) => {
+    let data = '';
+    const finish = () => {
+      clearTimeout(timer);
+      stream.off('data', onData);
+      stream.off('end', finish);
+      stream.off('error', finish);
+      stream.pause();
+      resolve(data);
+    };
+    const onData = (chunk: Buffer | string) => {
+      data += chunk.toString();
+    };
+    const timer = setTimeout(() => {
+      finish();
+      stream.destroy();
+    }, timeoutMs);
+    stream.on('data', onData);
+    stream.once('end', finish);
+    stream.once('error', finish);
+  });
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as HookInput)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readSessions(statePath: string): Promise<SessionStore> {
+  try {
+    return JSON.parse(await fs.readFile(statePath, 'utf8')) as SessionStore;
+  } catch {
+    return {};
+  }
+}
+
+async function writeSessions(
+  statePath: string,
+  sessions: SessionStore,
+): Promise<void> {
+  const now = Date.now();
+  const live = Object.fromEntries(
+    Object.entries(sessions).filter(
+      ([, session]) => now - Date.parse(session.updatedAt) < SESSION_TTL_MS,
+    ),
+  );
+  try {
+    const dir = path.dirname(statePath);
+    await fs.mkdir(dir, { recursive: true });
+    await fs
+      .writeFile(path.join(dir, '.gitignore'), '*\n', { flag: 'wx' })
+      .catch(() => undefined);
+    await fs.writeFile(statePath, JSON.stringify(live, null, 2), 'utf8');
+  } catch {
+    // Without state the guard just starts counting again
+  }
+}
+
+function runNotifyCommand(
+  command: string,
+  env: Record<string, string>,
+): Promise<void> {
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: 'ignore',
+      env: { ...process.env, ...env },
+    });
+    const timer = setTimeout(() => child.kill('SIGKILL'), NOTIFY_TIMEOUT_MS);
+    const done = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    child.on('error', done);
+    child.on('close', done);
+  });
+}
+
+function firstLine(text: string | undefined): string {
+  return (text ?? '').split('\n')[0] ?? '';
+}
+
+// Counts consecutive blocks per session and applies the loop guard once a
+// session goes past `maxConsecutiveBlocks`. A stop the agent makes on its own
+// (`stop_hook_active` false) starts a fresh streak.
+export async function applyLoopGuard(
+  output: HookOutput,
+  failure: string | null,
+  input: HookInput | null,
+  guard: LoopGuard | undefined,
+  statePath: string = DEFAULT_SESSION_STATE_PATH,
+): Promise<HookOutput> {
+  const sessionId = input?.session_id;
+  if (!sessionId) {
+    return output;
+  }
+
+  const sessions = await readSessions(statePath);
+  const previous =
+    input.stop_hook_active === true
+      ? sessions[sessionId]?.consecutiveBlocks
+      : 0;
+  // A hard stop ends the session anyway, so there's no loop to guard
+  if (output.decision !== 'block' || output.continue === false) {
+    delete sessions[sessionId];
+    await writeSessions(statePath, sessions);
+    return output;
+  }
+
+  const consecutiveBlocks = (previous ?? 0) + 1;
+  sessions[sessionId] = {
+    consecutiveBlocks,
+    lastFailure: failure,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const max = guard?.maxConsecutiveBlocks;
+  if (max === undefined || consecutiveBlocks <= max) {
+    await writeSessions(statePath, sessions);
+    return output;
+  }
+
+  const action = guard?.action ?? 'allow';
+  if (action === 'escalate') {
+    await writeSessions(statePath, sessions);
+    const escalation =
+      guard?.message ??
+      `The gates have blocked ${consecutiveBlocks} stops in a row. Stop repeating the same fix: re-read the failure, try a different approach, or explain to the user what is blocking you.`;
+    return { ...output, reason: `${escalation}\n\n${output.reason ?? ''}` };
+  }
+
+  if (action === 'notify' && guard?.notifyCommand) {
+    await runNotifyCommand(guard.notifyCommand, {
+      RALPH_GATE_SESSION_ID: sessionId,
+      RALPH_GATE_CONSECUTIVE_BLOCKS: String(consecutiveBlocks),
+      RALPH_GATE_FAILURE: failure ?? '',
+      RALPH_GATE_REASON: output.reason ?? '',
+    });
+  }
+
+  // Let the agent stop; the next streak starts from zero
+  delete sessions[sessionId];
+  await writeSessions(statePath, sessions);
+  const warning = `Stop allowed after ${max} consecutive blocks: ${firstLine(output.reason).replace(/:$/, '')}`;
+  const { decision, reason, ...rest } = output;
+  return {
+    ...rest,
+    systemMessage: `ralph-gate: ${warning}`,
+    warnings: [...(output.warnings ?? []), warning],
+  };
+}
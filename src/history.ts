@@ -0,0 +1,247 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type {
+  GateRunSummary,
+  GateStats,
+  HistoryEntry,
+  HistoryStats,
+} from './types.js';
+
+export const DEFAULT_HISTORY_PATH = path.join('.ralph-gate', 'history.jsonl');
+
+const MAX_HISTORY_ENTRIES = 1000;
+
+export function createHistoryEntry(
+  summary: GateRunSummary,
+  profile?: string,
+): HistoryEntry {
+  return {
+    timestamp: summary.timestamp,
+    passed: summary.passed,
+    totalDurationMs: summary.totalDurationMs,
+    firstFailure: summary.firstFailure?.name ?? null,
+    profile,
+    gates: summary.results.map((result) => ({
+      name: result.name,
+      passed: result.passed,
+      skipped: result.skipped,
+      durationMs: result.durationMs,
+      timedOut: result.timedOut || undefined,
+      cached: result.cached || undefined,
+      flaky: result.flaky || undefined,
+    })),
+  };
+}
+
+export async function readHistory(
+  historyPath: string = DEFAULT_HISTORY_PATH,
+): Promise<HistoryEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(historyPath, 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // A run killed mid-write leaves a partial line; skip it
+    }
+  }
+  return entries;
+}
+
+export async function appendHistory(
+  summary: GateRunSummary,
+  options: { historyPath?: string; profile?: string } = {},
+): Promise<void> {
+  const historyPath = options.historyPath ?? DEFAULT_HISTORY_PATH;
+  const line = `${JSON.stringify(createHistoryEntry(summary, options.profile))}\n`;
+  try {
+    const dir = path.dirname(historyPath);
+    await fs.mkdir(dir, { recursive: true });
+    // Local run state, like the cache, never belongs in the working tree
+    await fs
+      .writeFile(path.join(dir, '.gitignore'), '*\n', { flag: 'wx' })
+      .catch(() => undefined);
+    const existing = await fs.readFile(historyPath, 'utf8').catch(() => '');
+    // Start on a fresh line if a killed run left a partial entry behind
+    const separator =
+      existing.length > 0 && !existing.endsWith('\n') ? '\n' : '';
+    await fs.appendFile(historyPath, `${separator}${line}`, 'utf8');
+
+    const count = existing.split('\n').filter(Boolean).length + 1;
+    if (count > MAX_HISTORY_ENTRIES) {
+      const entries = await readHistory(historyPath);
+      const kept = entries.slice(-MAX_HISTORY_ENTRIES);
+      await fs.writeFile(
+        historyPath,
+        kept.map((entry) => `${JSON.stringify(entry)}\n`).join(''),
+        'utf8',
+      );
+    }
+  } catch {
+    // History is best effort and must never fail a run
+  }
+}
+
+function percentile(sorted: number[], ratio: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  // Nearest-rank percentile
+  const rank = Math.ceil(ratio * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1] as number;
+}
+
+export function computeHistoryStats(entries: HistoryEntry[]): HistoryStats {
+  const byGate = new Map<
+    string,
+    {
+      durations: number[];
+      runs: number;
+      passed: number;
+      flaky: number;
+      skipped: number;
+    }
+  >();
+  const firstFailures = new Map<string, number>();
+
+  for (const entry of entries) {
+    if (entry.firstFailure) {
+      firstFailures.set(
+        entry.firstFailure,
+        (firstFailures.get(entry.firstFailure) ?? 0) + 1,
+      );
+    }
+    for (const gate of entry.gates) {
+      const stats = byGate.get(gate.name) ?? {
+        durations: [],
+        runs: 0,
+        passed: 0,
+        flaky: 0,
+        skipped: 0,
+      };
+      byGate.set(gate.name, stats);
+      if (gate.skipped) {
+        stats.skipped += 1;
+        continue;
+      }
+      stats.runs += 1;
+      // Cached results took no time, so they'd drag the percentiles down
+      if (!gate.cached) {
+        stats.durations.push(gate.durationMs);
+      }
+      if (gate.passed) {
+        stats.passed += 1;
+      }
+      if (gate.flaky) {
+        stats.flaky += 1;
+      }
+    }
+  }
+
+  const gates: GateStats[] = [...byGate.entries()].map(([name, stats]) => {
+    const durations = [...stats.durations].sort((a, b) => a - b);
+    return {
+      name,
+      runs: stats.runs,
+      skipped: stats.skipped,
+      passRate: stats.runs > 0 ? stats.passed / stats.runs : 0,
+      p50DurationMs: percentile(durations, 0.5),
+      p95DurationMs: percentile(durations, 0.95),
+      flaky: stats.flaky,
+      firstFailures: firstFailures.get(name) ?? 0,
+    };
+  });
+
+  const [mostFrequentFirstFailure] = [...firstFailures.entries()].sort(
+    (a, b) => b[1] - a[1],
+  );
+
+  return {
+    runs: entries.length,
+    passRate:
+      entries.length > 0
+        ? entries.filter((entry) => entry.passed).length / entries.length
+        : 0,
+    gates,
+    mostFrequentFirstFailure: mostFrequentFirstFailure
+      ? {
+          name: mostFrequentFirstFailure[0],
+          count: mostFrequentFirstFailure[1],
+        }
+      : null,
+  };
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+function formatTable(rows: string[][]): string[] {
+  const widths = (rows[0] ?? []).map((_cell, column) =>
+    Math.max(...rows.map((row) => (row[column] ?? '').length)),
+  );
+  return rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+      .join('  ')
+      .trimEnd(),
+  );
+}
+
+export function formatHistory(entries: HistoryEntry[]): string {
+  if (entries.length === 0) {
+    return 'No runs recorded yet.';
+  }
+  const rows = [...entries].reverse().map((entry) => {
+    const ran = entry.gates.filter((gate) => !gate.skipped).length;
+    return [
+      entry.timestamp.replace('T', ' ').replace(/\.\d+Z$/, 'Z'),
+      entry.passed ? '✓ passed' : `✗ ${entry.firstFailure ?? 'failed'}`,
+      formatDuration(entry.totalDurationMs),
+      `${ran}/${entry.gates.length} gates`,
+      entry.profile ? `profile ${entry.profile}` : '',
+    ];
+  });
+  return formatTable(rows).join('\n');
+}
+
+export function formatStats(stats: HistoryStats): string {
+  if (stats.runs === 0) {
+    return 'No runs recorded yet.';
+  }
+  const rows = [
+    ['GATE', 'RUNS', 'PASS', 'P50', 'P95', 'FLAKY', 'FIRST FAILURE'],
+    ...stats.gates.map((gate) => [
+      gate.name,
+      String(gate.runs),
+      formatPercent(gate.passRate),
+      formatDuration(gate.p50DurationMs),
+      formatDuration(gate.p95DurationMs),
+      String(gate.flaky),
+      String(gate.firstFailures),
+    ]),
+  ];
+  const lines = [
+    `${stats.runs} run(s), ${formatPercent(stats.passRate)} passed`,
+    '',
+    ...formatTable(rows),
+  ];
+  if (stats.mostFrequentFirstFailure) {
+    const { name, count } = stats.mostFrequentFirstFailure;
+    lines.push('', `Most frequent first failure: ${name} (${count} run(s))`);
+  }
+  return lines.join('\n');
+}
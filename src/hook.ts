@@ -1,25 +1,139 @@
-import type { GateRunSummary, HookOutput } from './types.js';
-import { formatFailureContext } from './output.js';
+import path from 'node:path';
+import type {
+  Gate,
+  GateResult,
+  GateRunSummary,
+  HookEvent,
+  HookInput,
+  HookOutput,
+  HookOutputOptions,
+} from './types.js';
+import { formatDiagnostics, formatFailureContext } from './output.js';
 
-export function generateHookResponse(summary: GateRunSummary): HookOutput {
-  const warnings = summary.warnings.length > 0 ? summary.warnings : undefined;
+export const HOOK_EVENTS: HookEvent[] = ['Stop', 'SubagentStop', 'PostToolUse'];
 
-  if (summary.passed) {
-    return warnings ? { warnings } : {};
+// Gates without `events` guard the end of a turn, not every edit or subagent
+const DEFAULT_GATE_EVENTS: HookEvent[] = ['Stop'];
+
+export function gateRunsOn(gate: Gate, event: HookEvent): boolean {
+  return (gate.events ?? DEFAULT_GATE_EVENTS).includes(event);
+}
+
+// Files an Edit/Write/MultiEdit/NotebookEdit call touched, relative to cwd
+export function getEditedFiles(
+  input: HookInput | null,
+  cwd: string = process.cwd(),
+): string[] {
+  const toolInput = input?.tool_input ?? {};
+  return ['file_path', 'notebook_path']
+    .map((key) => toolInput[key])
+    .filter((value): value is string => typeof value === 'string')
+    .map((file) =>
+      path.relative(cwd, path.resolve(cwd, file)).split(path.sep).join('/'),
+    );
+}
+
+function describeFailure(failure: GateResult): string {
+  if (failure.skipped) {
+    return `Gate '${failure.name}' did not run (${failure.skipReason ?? 'skipped'})`;
+  }
+  const attempts =
+    failure.attempts && failure.attempts.length > 1
+      ? ` after ${failure.attempts.length} attempts`
+      : '';
+  if (failure.timedOut) {
+    return `Gate '${failure.name}' timed out after ${failure.durationMs}ms${attempts}`;
+  }
+  return `Gate '${failure.name}' failed (exit ${failure.exitCode ?? 'null'})${attempts}`;
+}
+
+function describeBlockingFailure(failure: GateResult | null): string {
+  if (!failure) {
+    return 'Gate run failed without a blocking gate result.';
+  }
+  if (failure.skipped) {
+    return describeFailure(failure);
+  }
+  // Parsed diagnostics are denser than a truncated slice of raw output
+  const context =
+    failure.diagnostics && failure.diagnostics.length > 0
+      ? formatDiagnostics(failure.diagnostics)
+      : formatFailureContext(failure.stderr, failure.stdout);
+  return `${describeFailure(failure)}:\n${context}`;
+}
+
+export function generateHookResponse(
+  summary: GateRunSummary,
+  event: HookEvent = 'Stop',
+  options: HookOutputOptions = {},
+): HookOutput {
+  const allWarnings = [
+    ...summary.warnings,
+    ...summary.flaky.map((name) => `${name} (flaky)`),
+  ];
+  const warnings = allWarnings.length > 0 ? allWarnings : undefined;
+  const base: HookOutput = options.suppressOutput
+    ? { suppressOutput: true }
+    : {};
+
+  // A stop-on gate ends the session, whether or not it blocks the run
+  const stopGate = summary.results.find(
+    (result) =>
+      !result.passed &&
+      !result.skipped &&
+      options.stopOn?.includes(result.name),
+  );
+  if (stopGate) {
+    const reason = describeBlockingFailure(stopGate);
+    return {
+      ...base,
+      continue: false,
+      stopReason:
+        options.stopReason ??
+        `ralph-gate stopped Claude: ${describeFailure(stopGate)}`,
+      decision: 'block',
+      reason,
+      ...(warnings ? { warnings } : {}),
+    };
   }
 
-  const failure = summary.firstFailure;
-  if (failure) {
-    const reason = `Gate '${failure.name}' failed (exit ${failure.exitCode ?? 'null'}):\n${formatFailureContext(failure.stderr, failure.stdout)}`;
-    return warnings
-      ? { decision: 'block', reason, warnings }
-      : { decision: 'block', reason };
+  if (summary.passed) {
+    if (!warnings) {
+      return base;
+    }
+    // Flaky gates may be blocking ones, so they get their own sentence
+    const problems = [
+      summary.warnings.length > 0
+        ? `Non-blocking gates reported problems: ${summary.warnings.join(', ')}`
+        : '',
+      summary.flaky.length > 0
+        ? `Passed only after a retry: ${summary.flaky.join(', ')}`
+        : '',
+    ]
+      .filter((part) => part.length > 0)
+      .join('. ');
+    return {
+      ...base,
+      ...(options.systemMessage === false
+        ? {}
+        : { systemMessage: `ralph-gate: ${problems}` }),
+      warnings,
+      // After a tool call Claude only sees the event's additional context
+      ...(event === 'PostToolUse'
+        ? {
+            hookSpecificOutput: {
+              hookEventName: event,
+              additionalContext: problems,
+            },
+          }
+        : {}),
+    };
   }
 
-  const reason = 'Gate run failed without a blocking gate result.';
+  const reason = describeBlockingFailure(summary.firstFailure);
   return warnings
-    ? { decision: 'block', reason, warnings }
-    : { decision: 'block', reason };
+    ? { ...base, decision: 'block', reason, warnings }
+    : { ...base, decision: 'block', reason };
 }
 
 export function outputHookResponse(output: HookOutput): void {
@@ -1,11 +1,47 @@
 export { runGates } from './runner.js';
-export { loadConfig } from './config.js';
-export { generateHookResponse } from './hook.js';
-export { formatConsoleOutput, formatFailureContext } from './output.js';
+export { applyProfile, defineConfig, loadConfig } from './config.js';
+export {
+  validateConfig,
+  type ConfigIssue,
+  type ValidateOptions,
+} from './validate.js';
+export { getChangedFiles } from './changes.js';
+export { orderGatesAdaptively } from './ordering.js';
+export { detectParser, parseDiagnostics } from './diagnostics.js';
+export { clearCache, computeCacheKey } from './cache.js';
+export { appendHistory, computeHistoryStats, readHistory } from './history.js';
+export {
+  formatJUnitReport,
+  formatSarifReport,
+  writeReports,
+  type ReportOptions,
+} from './reporters.js';
+export { gateRunsOn, generateHookResponse } from './hook.js';
+export { applyLoopGuard, readHookInput } from './guard.js';
+export {
+  formatConsoleOutput,
+  formatDiagnostics,
+  formatFailureContext,
+} from './output.js';
 export type {
   Gate,
+  GateAttempt,
+  Diagnostic,
+  DiagnosticParser,
   GateResult,
   GateRunSummary,
   GateConfig,
+  GateProfile,
+  GateStats,
+  HistoryEntry,
+  HistoryStats,
+  GateReporter,
+  ReporterType,
+  ConfigContext,
+  ConfigExport,
+  HookEvent,
+  HookInput,
   HookOutput,
+  HookOutputOptions,
+  LoopGuard,
 } from './types.js';
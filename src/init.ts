@@ -1,20 +1,52 @@
 import { promises as fs } from 'node:fs';
 import { execSync } from 'node:child_process';
+import os from 'node:os';
 import path from 'node:path';
-import type { Gate, GateConfig } from './types.js';
+import type { Gate, GateConfig, HookEvent } from './types.js';
+import { expandGlobs } from './glob.js';
+import { gateRunsOn, HOOK_EVENTS } from './hook.js';
+import { readPythonProject, type PythonProject } from './python.js';
 
 export const DEFAULT_CONFIG_FILENAME = 'gate.config.json';
 
-type PackageManager = 'npm' | 'yarn' | 'pnpm';
+// The lines init appends to .gitignore; the marker tells uninstall which
+// pattern is ours and which one the user wrote
+export const GITIGNORE_MARKER = '# ralph-gate';
+export const GITIGNORE_PATTERN = 'gate-results-*.json';
+
+type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;
+  packageJson: Record<string, unknown>;
+}
 
 type DetectedProject =
   | {
       kind: 'node';
       packageManager: PackageManager;
       packageJson: Record<string, unknown>;
+      workspaces: WorkspacePackage[];
     }
-  | { kind: 'python'; requirements: Set<string> }
-  | { kind: 'unknown' };
+  | { kind: 'deno'; tasks: Set<string> }
+  | ({ kind: 'python' } & PythonProject)
+  | { kind: 'go'; golangciLint: boolean }
+  | { kind: 'rust' }
+  | { kind: 'java'; buildTool: 'maven' | 'gradle'; wrapper: boolean }
+  | { kind: 'ruby'; gems: Set<string>; rubocopConfig: boolean; rspec: boolean };
+
+type ProjectKind = DetectedProject['kind'] | 'unknown';
+
+// Where the hook goes: this checkout only, the shared project settings, or
+// every project of the current user
+export type HookScope = 'local' | 'project' | 'user';
+
+export interface InitChoices {
+  config: GateConfig;
+  // null skips installing the hook
+  hookScope: HookScope | null;
+}
 
 export interface InitOptions {
   cwd?: string;
@@ -22,18 +54,29 @@ export interface InitOptions {
   force?: boolean;
   print?: boolean;
   skipHook?: boolean;
+  hookScope?: HookScope;
+  // Seconds Claude Code waits for the hook before giving up
+  hookTimeout?: number;
+  // Lets a caller (the interactive wizard) adjust what init detected
+  review?: (choices: InitChoices) => Promise<InitChoices>;
 }
 
 export interface InitResult {
   config: GateConfig;
   configPath: string;
   created: boolean;
-  projectKind: DetectedProject['kind'];
+  projectKind: ProjectKind;
+  projectKinds: ProjectKind[];
   warnings: string[];
   error?: string;
   gitignoreUpdated?: boolean;
   hookConfigured?: boolean;
   hookAlreadyExists?: boolean;
+  hookEvents?: HookEvent[];
+  hookSettingsPath?: string;
+  // Changes made (or, with `print`, planned) to the settings file
+  hookDiff?: string;
+  hookError?: string;
 }
 
 async function fileExists(filePath: string): Promise<boolean> {
@@ -45,8 +88,23 @@ async function fileExists(filePath: string): Promise<boolean> {
   }
 }
 
+async function anyFileExists(cwd: string, names: string[]): Promise<boolean> {
+  for (const name of names) {
+    if (await fileExists(path.join(cwd, name))) {
+      return true;
+    }
+  }
+  return false;
+}
+
 async function detectPackageManager(cwd: string): Promise<PackageManager> {
-  if (await fileExists(path.join(cwd, 'pnpm-lock.yaml'))) {
+  if (await anyFileExists(cwd, ['bun.lockb', 'bun.lock'])) {
+    return 'bun';
+  }
+  if (
+    (await fileExists(path.join(cwd, 'pnpm-lock.yaml'))) ||
+    (await fileExists(path.join(cwd, 'pnpm-workspace.yaml')))
+  ) {
     return 'pnpm';
   }
   if (await fileExists(path.join(cwd, 'yarn.lock'))) {
@@ -64,68 +122,253 @@ function runScriptCommand(
       return `yarn ${scriptName}`;
     case 'pnpm':
       return `pnpm run ${scriptName}`;
+    case 'bun':
+      return `bun run ${scriptName}`;
     default:
       return `npm run ${scriptName}`;
   }
 }
 
+// Runs a locally installed binary the way the package manager prefers
+function execCommand(packageManager: PackageManager, command: string): string {
+  switch (packageManager) {
+    case 'yarn':
+      return `yarn ${command}`;
+    case 'pnpm':
+      return `pnpm exec ${command}`;
+    case 'bun':
+      return `bunx ${command}`;
+    default:
+      return `npx ${command}`;
+  }
+}
+
 async function readJsonFile(filePath: string): Promise<unknown> {
   const raw = await fs.readFile(filePath, 'utf8');
   return JSON.parse(raw);
 }
 
-function extractRequirementName(line: string): string | null {
-  const trimmed = line.trim();
-  if (trimmed.length === 0 || trimmed.startsWith('#')) {
-    return null;
+// Just enough YAML for pnpm-workspace.yaml: the items of the `packages` list
+function parsePnpmWorkspacePatterns(raw: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of raw.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages || line.trim() === '' || line.trim().startsWith('#')) {
+      continue;
+    }
+    const item = /^\s+-\s*(.+?)\s*$/.exec(line);
+    if (!item) {
+      break;
+    }
+    patterns.push((item[1] as string).replace(/^['"]|['"]$/g, ''));
   }
-  const noEnvMarker = trimmed.split(';', 1)[0]?.trim() ?? '';
-  if (noEnvMarker.length === 0) {
-    return null;
+  return patterns;
+}
+
+async function getWorkspacePatterns(
+  cwd: string,
+  packageJson: Record<string, unknown>,
+): Promise<string[]> {
+  const pnpmWorkspacePath = path.join(cwd, 'pnpm-workspace.yaml');
+  if (await fileExists(pnpmWorkspacePath)) {
+    return parsePnpmWorkspacePatterns(
+      await fs.readFile(pnpmWorkspacePath, 'utf8'),
+    );
   }
-  const name = noEnvMarker.split(/[<>=\[]/, 1)[0]?.trim();
-  if (!name) {
-    return null;
+
+  // npm and yarn accept an array or yarn's { packages: [...] } form
+  const workspaces = packageJson.workspaces;
+  const list = Array.isArray(workspaces)
+    ? workspaces
+    : workspaces && typeof workspaces === 'object'
+      ? (workspaces as { packages?: unknown }).packages
+      : undefined;
+  if (!Array.isArray(list)) {
+    return [];
   }
-  return name.toLowerCase();
+  return list.filter((item): item is string => typeof item === 'string');
 }
 
-async function detectProject(cwd: string): Promise<DetectedProject> {
-  const packageJsonPath = path.join(cwd, 'package.json');
-  if (await fileExists(packageJsonPath)) {
-    const pm = await detectPackageManager(cwd);
-    const parsed = await readJsonFile(packageJsonPath);
+async function detectWorkspaces(
+  cwd: string,
+  packageJson: Record<string, unknown>,
+): Promise<WorkspacePackage[]> {
+  const patterns = await getWorkspacePatterns(cwd, packageJson);
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  const manifests = await expandGlobs(
+    cwd,
+    patterns.map((pattern) => {
+      const negated = pattern.startsWith('!');
+      const body = (negated ? pattern.slice(1) : pattern).replace(/\/+$/, '');
+      return `${negated ? '!' : ''}${body}/package.json`;
+    }),
+  );
+
+  const packages: WorkspacePackage[] = [];
+  for (const manifest of manifests) {
+    const dir = path.posix.dirname(manifest);
+    if (dir === '.') {
+      continue;
+    }
+    const parsed = await readJsonFile(path.join(cwd, manifest)).catch(
+      () => null,
+    );
     if (!parsed || typeof parsed !== 'object') {
-      throw new Error('package.json is not a JSON object.');
+      continue;
     }
-    return {
-      kind: 'node',
-      packageManager: pm,
-      packageJson: parsed as Record<string, unknown>,
-    };
+    const packageJson = parsed as Record<string, unknown>;
+    const name =
+      typeof packageJson.name === 'string' && packageJson.name.length > 0
+        ? packageJson.name
+        : path.posix.basename(dir);
+    packages.push({ name, dir, packageJson });
   }
+  return packages;
+}
 
-  const requirementsPath = path.join(cwd, 'requirements.txt');
-  const pyprojectPath = path.join(cwd, 'pyproject.toml');
+// deno.jsonc allows comments and trailing commas; strip them outside strings
+function parseJsonc(raw: string): unknown {
+  const stripped = raw.replace(
+    /("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (match, string: string | undefined) => string ?? '',
+  );
+  return JSON.parse(stripped.replace(/,(\s*[}\]])/g, '$1'));
+}
 
-  if (
-    (await fileExists(requirementsPath)) ||
-    (await fileExists(pyprojectPath))
-  ) {
-    const requirements = new Set<string>();
-    if (await fileExists(requirementsPath)) {
-      const raw = await fs.readFile(requirementsPath, 'utf8');
-      for (const line of raw.split(/\r?\n/)) {
-        const name = extractRequirementName(line);
-        if (name) {
-          requirements.add(name);
-        }
-      }
+async function readDenoTasks(cwd: string): Promise<Set<string>> {
+  for (const name of ['deno.json', 'deno.jsonc']) {
+    const filePath = path.join(cwd, name);
+    if (!(await fileExists(filePath))) {
+      continue;
+    }
+    try {
+      const parsed = parseJsonc(await fs.readFile(filePath, 'utf8')) as {
+        tasks?: unknown;
+      } | null;
+      const tasks = parsed?.tasks;
+      return new Set(
+        tasks && typeof tasks === 'object' ? Object.keys(tasks) : [],
+      );
+    } catch {
+      return new Set();
+    }
+  }
+  return new Set();
+}
+
+// Gem names from `gem '...'` lines, plus gemspec dependencies
+async function readGems(cwd: string): Promise<Set<string>> {
+  const gems = new Set<string>();
+  const sources = ['Gemfile'];
+  for (const entry of await fs.readdir(cwd).catch(() => [] as string[])) {
+    if (entry.endsWith('.gemspec')) {
+      sources.push(entry);
+    }
+  }
+  for (const source of sources) {
+    const raw = await fs
+      .readFile(path.join(cwd, source), 'utf8')
+      .catch(() => '');
+    for (const match of raw.matchAll(
+      /^\s*(?:gem|\w+\.add_(?:development_|runtime_)?dependency)\s*\(?\s*['"]([^'"]+)['"]/gm,
+    )) {
+      gems.add((match[1] as string).toLowerCase());
     }
-    return { kind: 'python', requirements };
   }
+  return gems;
+}
 
-  return { kind: 'unknown' };
+async function detectNodeProject(cwd: string): Promise<DetectedProject | null> {
+  const packageJsonPath = path.join(cwd, 'package.json');
+  if (!(await fileExists(packageJsonPath))) {
+    return null;
+  }
+  const pm = await detectPackageManager(cwd);
+  const parsed = await readJsonFile(packageJsonPath);
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('package.json is not a JSON object.');
+  }
+  const packageJson = parsed as Record<string, unknown>;
+  return {
+    kind: 'node',
+    packageManager: pm,
+    packageJson,
+    workspaces: await detectWorkspaces(cwd, packageJson),
+  };
+}
+
+// Every ecosystem with a manifest at the root, in a fixed order
+async function detectProjects(cwd: string): Promise<DetectedProject[]> {
+  const projects: DetectedProject[] = [];
+
+  const node = await detectNodeProject(cwd);
+  if (node) {
+    projects.push(node);
+  }
+
+  if (await anyFileExists(cwd, ['deno.json', 'deno.jsonc'])) {
+    projects.push({ kind: 'deno', tasks: await readDenoTasks(cwd) });
+  }
+
+  const python = await readPythonProject(cwd);
+  if (python) {
+    projects.push({ kind: 'python', ...python });
+  }
+
+  if (await fileExists(path.join(cwd, 'go.mod'))) {
+    projects.push({
+      kind: 'go',
+      golangciLint: await anyFileExists(cwd, [
+        '.golangci.yml',
+        '.golangci.yaml',
+        '.golangci.toml',
+        '.golangci.json',
+      ]),
+    });
+  }
+
+  if (await fileExists(path.join(cwd, 'Cargo.toml'))) {
+    projects.push({ kind: 'rust' });
+  }
+
+  if (await fileExists(path.join(cwd, 'pom.xml'))) {
+    projects.push({
+      kind: 'java',
+      buildTool: 'maven',
+      wrapper: await fileExists(path.join(cwd, 'mvnw')),
+    });
+  } else if (
+    await anyFileExists(cwd, [
+      'build.gradle',
+      'build.gradle.kts',
+      'settings.gradle',
+      'settings.gradle.kts',
+    ])
+  ) {
+    projects.push({
+      kind: 'java',
+      buildTool: 'gradle',
+      wrapper: await fileExists(path.join(cwd, 'gradlew')),
+    });
+  }
+
+  if (await fileExists(path.join(cwd, 'Gemfile'))) {
+    projects.push({
+      kind: 'ruby',
+      gems: await readGems(cwd),
+      rubocopConfig: await fileExists(path.join(cwd, '.rubocop.yml')),
+      rspec: await anyFileExists(cwd, ['.rspec', 'spec']),
+    });
+  }
+
+  return projects;
 }
 
 function getPackageJsonScripts(
@@ -166,76 +409,438 @@ function getPackageJsonDeps(packageJson: Record<string, unknown>): Set<string> {
   return deps;
 }
 
+type NodeGateKind = 'lint' | 'format' | 'typecheck' | 'test' | 'build' | 'e2e';
+
+// Script names tried for each gate, most specific first. `format` scripts
+// usually rewrite files, so only check variants count.
+const NODE_SCRIPT_VARIANTS: Array<[NodeGateKind, number, string[]]> = [
+  [
+    'lint',
+    10,
+    ['lint', 'lint:check', 'lint:ci', 'eslint', 'check:lint', 'check'],
+  ],
+  [
+    'format',
+    10,
+    ['format:check', 'fmt:check', 'prettier:check', 'check:format'],
+  ],
+  [
+    'typecheck',
+    20,
+    [
+      'typecheck',
+      'type-check',
+      'check-types',
+      'check:types',
+      'types',
+      'tsc',
+      'check',
+    ],
+  ],
+  ['test', 30, ['test', 'test:unit', 'unit', 'test:ci', 'tests']],
+  ['build', 40, ['build']],
+  ['e2e', 50, ['test:e2e', 'e2e', 'test:integration']],
+];
+
+const ESLINT_CONFIGS = [
+  'eslint.config.js',
+  'eslint.config.mjs',
+  'eslint.config.cjs',
+  'eslint.config.ts',
+  'eslint.config.mts',
+  'eslint.config.cts',
+  '.eslintrc',
+  '.eslintrc.js',
+  '.eslintrc.cjs',
+  '.eslintrc.json',
+  '.eslintrc.yml',
+  '.eslintrc.yaml',
+];
+const BIOME_CONFIGS = ['biome.json', 'biome.jsonc'];
+const PRETTIER_CONFIGS = [
+  '.prettierrc',
+  '.prettierrc.json',
+  '.prettierrc.json5',
+  '.prettierrc.yml',
+  '.prettierrc.yaml',
+  '.prettierrc.toml',
+  '.prettierrc.js',
+  '.prettierrc.cjs',
+  '.prettierrc.mjs',
+  '.prettierrc.ts',
+  'prettier.config.js',
+  'prettier.config.cjs',
+  'prettier.config.mjs',
+  'prettier.config.ts',
+];
+const CONFIG_EXTENSIONS = ['ts', 'mts', 'cts', 'js', 'mjs', 'cjs'];
+
+// npm init's placeholder fails on purpose and is not a test suite
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/;
+const LINTER_COMMAND = /\b(?:biome|eslint|prettier)\b/;
+
+// A bare `check` script is a linter run in Biome setups and a type check
+// (svelte-check, tsc) elsewhere
+function scriptFits(
+  kind: NodeGateKind,
+  name: string,
+  command: string,
+): boolean {
+  if (kind === 'test') {
+    return !PLACEHOLDER_TEST_SCRIPT.test(command);
+  }
+  if (name === 'check') {
+    return (kind === 'lint') === LINTER_COMMAND.test(command);
+  }
+  return true;
+}
+
+async function findFile(cwd: string, names: string[]): Promise<string | null> {
+  for (const name of names) {
+    if (await fileExists(path.join(cwd, name))) {
+      return name;
+    }
+  }
+  return null;
+}
+
+function configFiles(base: string): string[] {
+  return CONFIG_EXTENSIONS.map((extension) => `${base}.${extension}`);
+}
+
+// Direct invocations for tools configured without a script
+async function inferNodeToolGates(
+  cwd: string,
+  packageManager: PackageManager,
+  packageJson: Record<string, unknown>,
+  scripted: Set<NodeGateKind>,
+): Promise<Map<NodeGateKind, Gate>> {
+  const gates = new Map<NodeGateKind, Gate>();
+  const covered = new Set(scripted);
+  const add = (
+    kind: NodeGateKind,
+    order: number,
+    command: string,
+    source: string,
+  ) => {
+    if (!covered.has(kind) && !gates.has(kind)) {
+      gates.set(kind, {
+        name: kind,
+        order,
+        command: execCommand(packageManager, command),
+        description: `Inferred from ${source}; no matching script in package.json.`,
+      });
+    }
+  };
+
+  // Biome's check lints and verifies formatting in one pass
+  const biome = await findFile(cwd, BIOME_CONFIGS);
+  if (biome) {
+    add('lint', 10, 'biome check .', biome);
+    covered.add('format');
+  }
+  const eslint = await findFile(cwd, ESLINT_CONFIGS);
+  if (eslint) {
+    add('lint', 10, 'eslint .', eslint);
+  }
+  const prettier =
+    (await findFile(cwd, PRETTIER_CONFIGS)) ??
+    ('prettier' in packageJson ? "the 'prettier' key in package.json" : null);
+  if (prettier) {
+    add('format', 10, 'prettier --check .', prettier);
+  }
+
+  const vitest = await findFile(cwd, [
+    ...configFiles('vitest.config'),
+    ...configFiles('vitest.workspace'),
+  ]);
+  if (vitest) {
+    add('test', 30, 'vitest run', vitest);
+  }
+  const jest =
+    (await findFile(cwd, [
+      ...configFiles('jest.config'),
+      'jest.config.json',
+    ])) ?? ('jest' in packageJson ? "the 'jest' key in package.json" : null);
+  if (jest) {
+    add('test', 30, 'jest', jest);
+  }
+
+  const playwright = await findFile(cwd, configFiles('playwright.config'));
+  if (playwright) {
+    add('e2e', 50, 'playwright test', playwright);
+  }
+
+  return gates;
+}
+
 async function inferNodeGates(
   cwd: string,
   packageManager: PackageManager,
   packageJson: Record<string, unknown>,
   warnings: string[],
 ): Promise<Gate[]> {
-  const gates: Gate[] = [];
   const scripts = getPackageJsonScripts(packageJson);
   const deps = getPackageJsonDeps(packageJson);
 
-  const addIfScript = (name: string, order: number) => {
-    if (!scripts[name]) {
-      return;
+  const byKind = new Map<NodeGateKind, Gate>();
+  for (const [kind, order, variants] of NODE_SCRIPT_VARIANTS) {
+    const script = variants.find(
+      (name) => scripts[name] && scriptFits(kind, name, scripts[name]),
+    );
+    if (script) {
+      byKind.set(kind, {
+        name: kind,
+        order,
+        command: runScriptCommand(packageManager, script),
+        description: `Inferred from the '${script}' script in package.json.`,
+      });
     }
-    gates.push({
-      name,
-      order,
-      command: runScriptCommand(packageManager, name),
-    });
-  };
+  }
 
-  addIfScript('lint', 10);
-  addIfScript('typecheck', 20);
-  addIfScript('test', 30);
-  addIfScript('build', 40);
+  const toolGates = await inferNodeToolGates(
+    cwd,
+    packageManager,
+    packageJson,
+    new Set(byKind.keys()),
+  );
+  for (const [kind, gate] of toolGates) {
+    byKind.set(kind, gate);
+  }
 
   const tsconfigPath = path.join(cwd, 'tsconfig.json');
   const hasTypescript = deps.has('typescript');
-  if (hasTypescript && (await fileExists(tsconfigPath)) && !scripts.typecheck) {
+  if (
+    hasTypescript &&
+    (await fileExists(tsconfigPath)) &&
+    !byKind.has('typecheck')
+  ) {
     warnings.push(
       "No 'typecheck' script found; generating a default tsc gate.",
     );
-    gates.splice(1, 0, {
+    byKind.set('typecheck', {
       name: 'typecheck',
       order: 20,
-      command: 'npx tsc -p tsconfig.json --noEmit',
+      command: execCommand(packageManager, 'tsc -p tsconfig.json --noEmit'),
+      description:
+        'Inferred from tsconfig.json and the typescript dependency; no typecheck script in package.json.',
     });
   }
 
-  return gates;
+  return NODE_SCRIPT_VARIANTS.flatMap(([kind]) => {
+    const gate = byKind.get(kind);
+    return gate ? [gate] : [];
+  });
 }
 
-function inferPythonGates(
-  requirements: Set<string>,
+async function inferWorkspaceGates(
+  cwd: string,
+  packageManager: PackageManager,
+  workspaces: WorkspacePackage[],
+  rootGateNames: Set<string>,
   warnings: string[],
-): Gate[] {
+): Promise<Gate[]> {
   const gates: Gate[] = [];
+  const overlapping = new Set<string>();
 
-  if (requirements.has('ruff')) {
-    gates.push({ name: 'lint', order: 10, command: 'python -m ruff check .' });
+  for (const workspace of workspaces) {
+    const packageWarnings: string[] = [];
+    const packageGates = await inferNodeGates(
+      path.join(cwd, workspace.dir),
+      packageManager,
+      workspace.packageJson,
+      packageWarnings,
+    );
+    for (const warning of packageWarnings) {
+      warnings.push(`${workspace.name}: ${warning}`);
+    }
+    for (const gate of packageGates) {
+      if (rootGateNames.has(gate.name)) {
+        overlapping.add(gate.name);
+      }
+      gates.push({
+        ...gate,
+        name: `${workspace.name}:${gate.name}`,
+        cwd: workspace.dir,
+        workspace: workspace.name,
+      });
+    }
   }
 
-  if (requirements.has('mypy')) {
-    gates.push({ name: 'typecheck', order: 20, command: 'python -m mypy .' });
+  for (const name of overlapping) {
+    warnings.push(
+      `Root '${name}' gate may already cover workspace '${name}' gates; disable one of them to avoid running twice.`,
+    );
   }
 
-  if (requirements.has('pytest')) {
-    gates.push({ name: 'test', order: 30, command: 'python -m pytest -q' });
+  return gates;
+}
+
+function inferPythonGates(project: PythonProject, warnings: string[]): Gate[] {
+  const gates: Gate[] = [];
+  const uses = (tool: 'ruff' | 'mypy' | 'pytest') =>
+    project.requirements.has(tool) || project.configured.has(tool);
+  // Inside a managed environment tools run directly; otherwise through the
+  // active interpreter
+  const run = (tool: string, args: string) =>
+    project.runner
+      ? `${project.runner} run ${tool} ${args}`
+      : `python -m ${tool} ${args}`;
+
+  if (uses('ruff')) {
+    gates.push({ name: 'lint', order: 10, command: run('ruff', 'check .') });
+  }
+
+  if (uses('mypy')) {
+    gates.push({ name: 'typecheck', order: 20, command: run('mypy', '.') });
+  }
+
+  if (uses('pytest')) {
+    gates.push({ name: 'test', order: 30, command: run('pytest', '-q') });
+  } else if (project.tox) {
+    gates.push({ name: 'test', order: 30, command: 'tox -e py' });
   } else {
     warnings.push(
-      'pytest not detected in requirements; no test gate generated.',
+      'pytest not detected in dependencies or config; no test gate generated.',
     );
   }
 
   return gates;
 }
 
+function inferDenoGates(tasks: Set<string>): Gate[] {
+  // Project tasks win over the built-in subcommands they usually wrap
+  const command = (task: string, fallback: string) =>
+    tasks.has(task) ? `deno task ${task}` : fallback;
+  return [
+    { name: 'format', order: 10, command: 'deno fmt --check' },
+    { name: 'lint', order: 10, command: command('lint', 'deno lint') },
+    { name: 'typecheck', order: 20, command: command('check', 'deno check .') },
+    { name: 'test', order: 30, command: command('test', 'deno test') },
+  ];
+}
+
+function inferGoGates(golangciLint: boolean): Gate[] {
+  return [
+    ...(golangciLint
+      ? [{ name: 'lint', order: 10, command: 'golangci-lint run' }]
+      : []),
+    { name: 'vet', order: 20, command: 'go vet ./...' },
+    { name: 'test', order: 30, command: 'go test ./...' },
+  ];
+}
+
+function inferRustGates(): Gate[] {
+  return [
+    { name: 'format', order: 10, command: 'cargo fmt --check' },
+    {
+      name: 'clippy',
+      order: 20,
+      command: 'cargo clippy --all-targets -- -D warnings',
+    },
+    { name: 'test', order: 30, command: 'cargo test' },
+  ];
+}
+
+function inferJavaGates(
+  buildTool: 'maven' | 'gradle',
+  wrapper: boolean,
+): Gate[] {
+  if (buildTool === 'maven') {
+    const mvn = wrapper ? './mvnw' : 'mvn';
+    return [
+      { name: 'compile', order: 20, command: `${mvn} -B -q compile` },
+      { name: 'test', order: 30, command: `${mvn} -B test` },
+    ];
+  }
+  const gradle = wrapper ? './gradlew' : 'gradle';
+  return [
+    { name: 'compile', order: 20, command: `${gradle} classes` },
+    { name: 'test', order: 30, command: `${gradle} test` },
+  ];
+}
+
+function inferRubyGates(
+  project: Extract<DetectedProject, { kind: 'ruby' }>,
+  warnings: string[],
+): Gate[] {
+  const gates: Gate[] = [];
+
+  if (project.gems.has('rubocop') || project.rubocopConfig) {
+    gates.push({ name: 'lint', order: 10, command: 'bundle exec rubocop' });
+  }
+
+  if (
+    project.gems.has('rspec') ||
+    project.gems.has('rspec-rails') ||
+    project.rspec
+  ) {
+    gates.push({ name: 'test', order: 30, command: 'bundle exec rspec' });
+  } else if (project.gems.has('minitest') || project.gems.has('rails')) {
+    gates.push({ name: 'test', order: 30, command: 'bundle exec rake test' });
+  } else {
+    warnings.push('RSpec not detected in the Gemfile; no test gate generated.');
+  }
+
+  return gates;
+}
+
+async function inferProjectGates(
+  cwd: string,
+  project: DetectedProject,
+  warnings: string[],
+): Promise<Gate[]> {
+  switch (project.kind) {
+    case 'node': {
+      const gates = await inferNodeGates(
+        cwd,
+        project.packageManager,
+        project.packageJson,
+        warnings,
+      );
+      if (project.workspaces.length > 0) {
+        gates.push(
+          ...(await inferWorkspaceGates(
+            cwd,
+            project.packageManager,
+            project.workspaces,
+            new Set(gates.map((gate) => gate.name)),
+            warnings,
+          )),
+        );
+      }
+      return gates;
+    }
+    case 'deno':
+      return inferDenoGates(project.tasks);
+    case 'python':
+      return inferPythonGates(project, warnings);
+    case 'go':
+      return inferGoGates(project.golangciLint);
+    case 'rust':
+      return inferRustGates();
+    case 'java':
+      return inferJavaGates(project.buildTool, project.wrapper);
+    case 'ruby':
+      return inferRubyGates(project, warnings);
+  }
+}
+
+// `quick` keeps the cheap static checks for mid-task stops; `full` is everything
+function inferProfiles(gates: Gate[]): GateConfig['profiles'] | undefined {
+  if (gates.length === 0) {
+    return undefined;
+  }
+  const cheap = gates.filter((gate) => (gate.order ?? 100) < 30);
+  const quick = cheap.length > 0 ? cheap : gates.slice(0, 1);
+  return {
+    quick: { gates: quick.map((gate) => gate.name) },
+    full: {},
+  };
+}
+
 async function updateGitignore(cwd: string): Promise<boolean> {
   const gitignorePath = path.join(cwd, '.gitignore');
-  const filePattern = 'gate-results-*.json';
 
   try {
     // Use git check-ignore to test if the pattern would already cover gate result files
@@ -257,7 +862,11 @@ async function updateGitignore(cwd: string): Promise<boolean> {
 
     // Append the pattern with proper newline handling
     const newline = content && !content.endsWith('\n') ? '\n' : '';
-    await fs.appendFile(gitignorePath, `${newline}${filePattern}\n`, 'utf8');
+    await fs.appendFile(
+      gitignorePath,
+      `${newline}${GITIGNORE_MARKER}\n${GITIGNORE_PATTERN}\n`,
+      'utf8',
+    );
     return true;
   } catch {
     // Silently fail if we can't update .gitignore
@@ -268,6 +877,7 @@ async function updateGitignore(cwd: string): Promise<boolean> {
 interface ClaudeHookCommand {
   type: string;
   command: string;
+  timeout?: number;
 }
 
 interface ClaudeHookConfig {
@@ -283,126 +893,324 @@ interface ClaudeSettings {
   [key: string]: unknown;
 }
 
+interface HookSetupResult {
+  configured: boolean;
+  alreadyExists: boolean;
+  diff?: string;
+  error?: string;
+  warnings: string[];
+}
+
 const RALPH_GATE_HOOK_COMMAND = 'npx ralph-gate --hook';
 
-async function setupClaudeHook(
-  cwd: string,
-): Promise<{ configured: boolean; alreadyExists: boolean }> {
-  const claudeDir = path.join(cwd, '.claude');
-  const settingsPath = path.join(claudeDir, 'settings.local.json');
+// The binary by name (optionally versioned, as with `npx ralph-gate@1`), by
+// path, or the package's dist/cli.js run through node
+const RALPH_GATE_BINARY =
+  /(?:^|[\\/])ralph-gate(?:@[\w.^~-]+)?(?:\.cmd)?$|[\\/]ralph-gate[\\/]dist[\\/]cli\.js$/;
 
-  try {
-    // Ensure .claude directory exists
-    await fs.mkdir(claudeDir, { recursive: true });
-
-    let settings: ClaudeSettings = {};
-
-    // Read existing settings if file exists
-    if (await fileExists(settingsPath)) {
-      try {
-        const content = await fs.readFile(settingsPath, 'utf8');
-        const parsed = JSON.parse(content);
-        if (parsed && typeof parsed === 'object') {
-          settings = parsed as ClaudeSettings;
-        }
-      } catch {
-        // If we can't parse existing file, start fresh but warn
-        settings = {};
+// Stop keeps the bare command so existing installs are recognized
+function hookCommandFor(event: HookEvent): string {
+  return event === 'Stop'
+    ? RALPH_GATE_HOOK_COMMAND
+    : `${RALPH_GATE_HOOK_COMMAND} ${event}`;
+}
+
+// PostToolUse only needs to fire for tools that change files
+const HOOK_MATCHERS: Partial<Record<HookEvent, string>> = {
+  PostToolUse: 'Edit|MultiEdit|Write|NotebookEdit',
+};
+
+export function getConfigHookEvents(config: GateConfig): HookEvent[] {
+  const events = new Set<HookEvent>(['Stop']);
+  for (const gate of config.gates) {
+    for (const event of HOOK_EVENTS) {
+      if (gateRunsOn(gate, event)) {
+        events.add(event);
       }
     }
+  }
+  return HOOK_EVENTS.filter((event) => events.has(event));
+}
+
+export function getClaudeSettingsPath(cwd: string, scope: HookScope): string {
+  switch (scope) {
+    case 'project':
+      return path.join(cwd, '.claude', 'settings.json');
+    case 'user':
+      return path.join(os.homedir(), '.claude', 'settings.json');
+    default:
+      return path.join(cwd, '.claude', 'settings.local.json');
+  }
+}
+
+// Whether an existing command already runs the ralph-gate hook for `event`
+// (or for any event), however it was installed (`pnpm exec`, an absolute
+// path, ...)
+export function isRalphGateHookCommand(
+  command: string,
+  event?: HookEvent,
+): boolean {
+  const tokens = command
+    .split(/\s+/)
+    .map((token) => token.replace(/^['"]|['"]$/g, ''));
+  const binary = tokens.findIndex((token) => RALPH_GATE_BINARY.test(token));
+  if (binary === -1) {
+    return false;
+  }
+  const args = tokens.slice(binary + 1);
+  const hook = args.indexOf('--hook');
+  if (hook === -1) {
+    return false;
+  }
+  const next = args[hook + 1];
+  const hookEvent = HOOK_EVENTS.find((name) => name === next) ?? 'Stop';
+  return event === undefined || hookEvent === event;
+}
 
-    // Initialize hooks structure if needed
-    if (!settings.hooks) {
-      settings.hooks = {};
+// Line diff with two lines of context around each change
+export function formatLineDiff(before: string, after: string): string {
+  const a = before === '' ? [] : before.replace(/\n$/, '').split('\n');
+  const b = after.replace(/\n$/, '').split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      (lcs[i] as number[])[j] =
+        a[i] === b[j]
+          ? ((lcs[i + 1] as number[])[j + 1] as number) + 1
+          : Math.max(
+              (lcs[i + 1] as number[])[j] as number,
+              (lcs[i] as number[])[j + 1] as number,
+            );
     }
-    if (!settings.hooks.Stop) {
-      settings.hooks.Stop = [];
+  }
+
+  const lines: Array<{ mark: ' ' | '-' | '+'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ mark: ' ', text: a[i] as string });
+      i += 1;
+      j += 1;
+    } else if (
+      i < a.length &&
+      (j >= b.length ||
+        ((lcs[i + 1] as number[])[j] as number) >=
+          ((lcs[i] as number[])[j + 1] as number))
+    ) {
+      lines.push({ mark: '-', text: a[i] as string });
+      i += 1;
+    } else {
+      lines.push({ mark: '+', text: b[j] as string });
+      j += 1;
     }
+  }
 
-    // Filter out invalid/legacy hook configurations
-    // 1. Must have 'hooks' array
-    // 2. Must NOT have a matcher that is an object (Stop hooks expect string or undefined)
-    settings.hooks.Stop = settings.hooks.Stop.filter((item) => {
-      if (!item || typeof item !== 'object') return false;
-      if (!('hooks' in item) || !Array.isArray(item.hooks)) return false;
-      if ('matcher' in item && typeof item.matcher === 'object') return false; // Remove legacy object matchers
-      return true;
-    });
+  const near = (index: number) =>
+    lines
+      .slice(Math.max(0, index - 2), index + 3)
+      .some((line) => line.mark !== ' ');
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    if (near(index)) {
+      if (skipped && output.length > 0) {
+        output.push('  ...');
+      }
+      skipped = false;
+      output.push(`${line.mark} ${line.text}`);
+    } else {
+      skipped = true;
+    }
+  });
+  return output.join('\n');
+}
 
-    // Check if ralph-gate hook already exists in new format
-    let hookExists = false;
-    for (const item of settings.hooks.Stop) {
-      if ('hooks' in item && Array.isArray(item.hooks)) {
-        const hasRalphGate = item.hooks.some(
-          (hook) =>
-            hook.type === 'command' && hook.command === RALPH_GATE_HOOK_COMMAND,
-        );
-        if (hasRalphGate) {
-          hookExists = true;
-          break;
-        }
+// Adds the missing ralph-gate hooks without touching anything else in the
+// file. Settings that don't parse are reported, never replaced.
+async function setupClaudeHook(
+  settingsPath: string,
+  events: HookEvent[],
+  options: { timeout?: number; write?: boolean } = {},
+): Promise<HookSetupResult> {
+  const warnings: string[] = [];
+  let content = '';
+  let settings: ClaudeSettings = {};
+  if (await fileExists(settingsPath)) {
+    try {
+      content = await fs.readFile(settingsPath, 'utf8');
+      const parsed = JSON.parse(content) as unknown;
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('expected a JSON object');
       }
+      settings = parsed as ClaudeSettings;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        configured: false,
+        alreadyExists: false,
+        error: `Not changing ${settingsPath}: it could not be parsed (${message}). Fix it, then run init again.`,
+        warnings,
+      };
+    }
+  }
+
+  const hooks = settings.hooks ?? {};
+  const isEntry = (item: unknown): item is ClaudeHookConfig =>
+    !!item &&
+    typeof item === 'object' &&
+    Array.isArray((item as ClaudeHookConfig).hooks);
+  // Older ralph-gate versions wrote the command straight into the entry
+  const isLegacyEntry = (item: unknown): boolean => {
+    const command = (item as { command?: unknown } | null)?.command;
+    return typeof command === 'string' && isRalphGateHookCommand(command);
+  };
+  // Entries without a hooks array make Claude Code reject the whole file, but
+  // only our own are ours to replace
+  for (const event of events) {
+    const current: unknown[] = Array.isArray(hooks[event]) ? hooks[event] : [];
+    const foreign = current.filter(
+      (item) => !isEntry(item) && !isLegacyEntry(item),
+    ).length;
+    if (foreign > 0) {
+      return {
+        configured: false,
+        alreadyExists: false,
+        error: `Not changing ${settingsPath}: it has ${foreign} ${event} hook entry(ies) without a 'hooks' array, which Claude Code rejects. Fix them, then run init again.`,
+        warnings,
+      };
+    }
+  }
+
+  let changed = 0;
+  for (const event of events) {
+    const current: unknown[] = Array.isArray(hooks[event]) ? hooks[event] : [];
+    const entries = current.filter(isEntry);
+    if (entries.length < current.length) {
+      warnings.push(
+        `Replaced ${current.length - entries.length} ${event} hook entry(ies) in the old ralph-gate format in ${settingsPath}.`,
+      );
+      hooks[event] = entries;
+      changed += 1;
+    }
+    const legacy = entries.filter(
+      (item) => typeof item.matcher === 'object',
+    ).length;
+    if (legacy > 0) {
+      warnings.push(
+        `${settingsPath} has ${legacy} ${event} hook entry(ies) with an object matcher, which Claude Code no longer reads; left unchanged.`,
+      );
     }
 
-    if (hookExists) {
-      return { configured: false, alreadyExists: true };
+    const existing = entries
+      .flatMap((item) => item.hooks)
+      .filter(
+        (hook) =>
+          hook?.type === 'command' &&
+          typeof hook.command === 'string' &&
+          isRalphGateHookCommand(hook.command, event),
+      );
+    if (existing.length > 0) {
+      for (const hook of existing) {
+        if (options.timeout !== undefined && hook.timeout !== options.timeout) {
+          hook.timeout = options.timeout;
+          changed += 1;
+        }
+      }
+      continue;
     }
 
-    // Append the ralph-gate hook with new format (no matcher for Stop hooks)
-    settings.hooks.Stop.push({
+    const matcher = HOOK_MATCHERS[event];
+    entries.push({
+      ...(matcher ? { matcher } : {}),
       hooks: [
         {
           type: 'command',
-          command: RALPH_GATE_HOOK_COMMAND,
+          command: hookCommandFor(event),
+          ...(options.timeout !== undefined
+            ? { timeout: options.timeout }
+            : {}),
         },
       ],
     });
+    hooks[event] = entries;
+    changed += 1;
+  }
 
-    // Write updated settings
-    await fs.writeFile(
-      settingsPath,
-      JSON.stringify(settings, null, 2) + '\n',
-      'utf8',
-    );
+  if (changed === 0) {
+    return { configured: false, alreadyExists: true, warnings };
+  }
 
-    return { configured: true, alreadyExists: false };
-  } catch {
-    // Silently fail if we can't setup hook
-    return { configured: false, alreadyExists: false };
+  const updated = `${JSON.stringify({ ...settings, hooks }, null, 2)}\n`;
+  const diff = formatLineDiff(content, updated);
+  if (options.write === false) {
+    return { configured: false, alreadyExists: false, diff, warnings };
+  }
+  try {
+    await fs.mkdir(path.dirname(settingsPath), { recursive: true });
+    await fs.writeFile(settingsPath, updated, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      configured: false,
+      alreadyExists: false,
+      error: `Unable to write ${settingsPath}: ${message}`,
+      warnings,
+    };
   }
+  return { configured: true, alreadyExists: false, diff, warnings };
 }
 
 export async function generateGateConfig(cwd: string): Promise<{
   config: GateConfig;
-  projectKind: DetectedProject['kind'];
+  projectKind: ProjectKind;
+  projectKinds: ProjectKind[];
   warnings: string[];
 }> {
   const warnings: string[] = [];
-  const detected = await detectProject(cwd);
+  const projects = await detectProjects(cwd);
 
-  let gates: Gate[] = [];
-
-  if (detected.kind === 'node') {
-    gates = await inferNodeGates(
-      cwd,
-      detected.packageManager,
-      detected.packageJson,
-      warnings,
-    );
-  } else if (detected.kind === 'python') {
-    gates = inferPythonGates(detected.requirements, warnings);
-  } else {
+  const gates: Gate[] = [];
+  // With several ecosystems at the root, names like `test` would collide, so
+  // each gate is named `<ecosystem>:<gate>`
+  const merged = projects.length > 1;
+  for (const project of projects) {
+    const projectWarnings: string[] = [];
+    const projectGates = await inferProjectGates(cwd, project, projectWarnings);
+    for (const warning of projectWarnings) {
+      warnings.push(merged ? `${project.kind}: ${warning}` : warning);
+    }
+    for (const gate of projectGates) {
+      gates.push(
+        merged ? { ...gate, name: `${project.kind}:${gate.name}` } : gate,
+      );
+    }
+  }
+  if (projects.length === 0) {
     warnings.push(
       'No supported project markers found; creating an empty gate config.',
     );
   }
 
+  // Stable sort: cheap checks of every ecosystem run before any tests
+  if (merged) {
+    gates.sort((a, b) => (a.order ?? 100) - (b.order ?? 100));
+  }
+
+  const config: GateConfig = { gates, failFast: true };
+  const profiles = inferProfiles(gates);
+  if (profiles) {
+    config.profiles = profiles;
+  }
+
+  const projectKinds: ProjectKind[] =
+    projects.length > 0 ? projects.map((project) => project.kind) : ['unknown'];
   return {
-    config: {
-      gates,
-      failFast: true,
-    },
-    projectKind: detected.kind,
+    config,
+    projectKind: projectKinds[0] as ProjectKind,
+    projectKinds,
     warnings,
   };
 }
@@ -414,15 +1222,48 @@ export async function initConfigFile(
   const filename = options.filename ?? DEFAULT_CONFIG_FILENAME;
   const configPath = path.join(cwd, filename);
 
-  const { config, projectKind, warnings } = await generateGateConfig(cwd);
+  const generated = await generateGateConfig(cwd);
+  const { projectKind, projectKinds, warnings } = generated;
+  let choices: InitChoices = {
+    config: generated.config,
+    hookScope: options.skipHook ? null : (options.hookScope ?? 'local'),
+  };
+  if (options.review) {
+    choices = await options.review(choices);
+  }
+  const { config, hookScope } = choices;
+
+  const setupHook = async (write: boolean) => {
+    if (!hookScope) {
+      return {};
+    }
+    const hookEvents = getConfigHookEvents(config);
+    const hookSettingsPath = getClaudeSettingsPath(cwd, hookScope);
+    const hook = await setupClaudeHook(hookSettingsPath, hookEvents, {
+      timeout: options.hookTimeout,
+      write,
+    });
+    warnings.push(...hook.warnings);
+    return {
+      hookConfigured: hook.configured,
+      hookAlreadyExists: hook.alreadyExists,
+      hookEvents,
+      hookSettingsPath,
+      hookDiff: hook.diff,
+      hookError: hook.error,
+    };
+  };
 
   if (options.print) {
+    const hook = await setupHook(false);
     return {
       config,
       configPath,
       created: false,
       projectKind,
+      projectKinds,
       warnings,
+      ...hook,
     };
   }
 
@@ -442,6 +1283,7 @@ export async function initConfigFile(
         configPath,
         created: false,
         projectKind,
+        projectKinds,
         warnings,
         error: `Config already exists at ${configPath}. Use --force to overwrite.`,
       };
@@ -451,6 +1293,7 @@ export async function initConfigFile(
       configPath,
       created: false,
       projectKind,
+      projectKinds,
       warnings,
       error: `Unable to write config at ${configPath}: ${message}`,
     };
@@ -459,24 +1302,14 @@ export async function initConfigFile(
   // Update .gitignore to include gate result files
   const gitignoreUpdated = await updateGitignore(cwd);
 
-  // Setup Claude hook unless skipped
-  let hookConfigured: boolean | undefined;
-  let hookAlreadyExists: boolean | undefined;
-
-  if (!options.skipHook) {
-    const hookResult = await setupClaudeHook(cwd);
-    hookConfigured = hookResult.configured;
-    hookAlreadyExists = hookResult.alreadyExists;
-  }
-
   return {
     config,
     configPath,
     created: true,
     projectKind,
+    projectKinds,
     warnings,
     gitignoreUpdated,
-    hookConfigured,
-    hookAlreadyExists,
+    ...(await setupHook(true)),
   };
 }
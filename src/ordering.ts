@@ -0,0 +1,98 @@
+import type { Gate, HistoryStats } from './types.js';
+
+export interface GateEstimate {
+  runs: number;
+  // p50 duration from history, or the band's typical cost when unknown
+  costMs: number;
+  // Smoothed, so a gate that never failed still has some chance to
+  failureRate: number;
+}
+
+export interface AdaptiveOrder {
+  gates: Gate[];
+  estimates: Map<string, GateEstimate>;
+}
+
+function bandOf(gate: Gate, band?: number): number {
+  const order = typeof gate.order === 'number' ? gate.order : 100;
+  return band ? Math.floor(order / band) : order;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) / 2)] as number;
+}
+
+// Moves each gate after every dependency listed before it, otherwise
+// keeping the given order
+function respectDependencies(gates: Gate[]): Gate[] {
+  const names = new Set(gates.map((gate) => gate.name));
+  const placed = new Set<string>();
+  const remaining = [...gates];
+  const ordered: Gate[] = [];
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((gate) =>
+      (gate.dependsOn ?? []).every((dep) => !names.has(dep) || placed.has(dep)),
+    );
+    // Cycles are rejected when loading, but never loop forever on one
+    const [next] = remaining.splice(Math.max(index, 0), 1) as [Gate];
+    placed.add(next.name);
+    ordered.push(next);
+  }
+  return ordered;
+}
+
+// Within each band of equal `order` (or `order` range of width `band`),
+// runs gates by expected cost over failure probability: the cheapest way to
+// find the first blocking failure. Bands themselves keep their static order.
+export function orderGatesAdaptively(
+  gates: Gate[],
+  stats: HistoryStats,
+  band?: number,
+): AdaptiveOrder {
+  const byName = new Map(stats.gates.map((gate) => [gate.name, gate]));
+  const estimates = new Map<string, GateEstimate>();
+  const bands = new Map<number, Gate[]>();
+  for (const gate of gates) {
+    const key = bandOf(gate, band);
+    bands.set(key, [...(bands.get(key) ?? []), gate]);
+  }
+
+  const ordered: Gate[] = [];
+  for (const key of [...bands.keys()].sort((a, b) => a - b)) {
+    const members = bands.get(key) as Gate[];
+    const known = members.flatMap((gate) => {
+      const history = byName.get(gate.name);
+      return history && history.runs > 0 ? [history.p50DurationMs] : [];
+    });
+    const typicalCost = median(known) ?? 0;
+
+    const scored = members.map((gate, index) => {
+      const history = byName.get(gate.name);
+      const runs = history?.runs ?? 0;
+      const failures = history ? runs * (1 - history.passRate) : 0;
+      const estimate: GateEstimate = {
+        runs,
+        costMs: history && runs > 0 ? history.p50DurationMs : typicalCost,
+        failureRate: (failures + 1) / (runs + 2),
+      };
+      estimates.set(gate.name, estimate);
+      // A non-blocking failure doesn't end the run, so it never pays to go first
+      const score =
+        gate.blocking === false
+          ? Number.POSITIVE_INFINITY
+          : estimate.costMs / estimate.failureRate;
+      return { gate, index, score };
+    });
+
+    scored.sort((a, b) =>
+      a.score === b.score ? a.index - b.index : a.score - b.score,
+    );
+    ordered.push(...scored.map((entry) => entry.gate));
+  }
+
+  return { gates: respectDependencies(ordered), estimates };
+}
@@ -1,9 +1,10 @@
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
-import type { GateResult, GateRunSummary } from './types.js';
+import type { Diagnostic, GateResult, GateRunSummary } from './types.js';
 
 const MAX_FAILURE_CHARS = 4000;
 const HEAD_RATIO = 0.6;
+const MAX_DIAGNOSTICS = 50;
 
 function truncateOutput(text: string, maxChars: number): string {
   const trimmed = text.trimEnd();
@@ -83,9 +84,18 @@ function formatResultLine(result: GateResult, color: boolean): string {
 
   const parts: string[] = [];
   if (result.skipped) {
-    parts.push('skipped');
+    parts.push(result.skipReason ? `skipped: ${result.skipReason}` : 'skipped');
+  } else if (result.timedOut) {
+    parts.push('timed out');
   } else if (!result.passed) {
     parts.push(`exit ${result.exitCode ?? 'null'}`);
+  } else if (result.cached) {
+    parts.push('cached');
+  } else if (result.flaky) {
+    parts.push('flaky');
+  }
+  if (result.attempts && result.attempts.length > 1) {
+    parts.push(`${result.attempts.length} attempts`);
   }
   parts.push(`${result.durationMs}ms`);
 
@@ -116,6 +126,23 @@ export function formatFailureContext(stderr: string, stdout = ''): string {
   return truncateOutput(trimmedStdout, MAX_FAILURE_CHARS);
 }
 
+function formatDiagnosticLine(diagnostic: Diagnostic): string {
+  const location = [diagnostic.file, diagnostic.line, diagnostic.column]
+    .filter((part) => part !== undefined)
+    .join(':');
+  const rule = diagnostic.rule ? ` (${diagnostic.rule})` : '';
+  return `${location}: ${diagnostic.message}${rule}`;
+}
+
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  const lines = [...new Set(diagnostics.map(formatDiagnosticLine))];
+  const shown = lines.slice(0, MAX_DIAGNOSTICS);
+  if (lines.length > shown.length) {
+    shown.push(`...and ${lines.length - shown.length} more`);
+  }
+  return shown.join('\n');
+}
+
 export function formatConsoleOutput(summary: GateRunSummary): string {
   const color = Boolean(process.stdout.isTTY);
   const lines: string[] = [];
@@ -124,6 +151,16 @@ export function formatConsoleOutput(summary: GateRunSummary): string {
     lines.push(formatResultLine(result, color));
   }
 
+  if (summary.cached.length > 0) {
+    const cachedLine = `Cached: ${summary.cached.join(', ')}`;
+    lines.push(colorize(cachedLine, '90', color));
+  }
+
+  if (summary.flaky.length > 0) {
+    const flakyLine = `Flaky: ${summary.flaky.join(', ')}`;
+    lines.push(colorize(flakyLine, '33', color));
+  }
+
   if (summary.warnings.length > 0) {
     const warningLine = `Warnings: ${summary.warnings.join(', ')}`;
     lines.push(colorize(warningLine, '33', color));
@@ -0,0 +1,265 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export type PythonRunner = 'uv' | 'poetry' | 'pdm' | 'hatch';
+
+export interface PythonProject {
+  // Lowercased distribution names from every dependency source
+  requirements: Set<string>;
+  // Tools with their own config section or file, even if not a dependency
+  configured: Set<'ruff' | 'mypy' | 'pytest'>;
+  tox: boolean;
+  runner: PythonRunner | null;
+}
+
+// TOML tables as raw `key = value` text, which is all init needs
+type TomlTables = Map<string, Map<string, string>>;
+
+// Lockfiles decide how commands reach the project's environment
+const RUNNER_LOCKFILES: Array<[PythonRunner, string]> = [
+  ['uv', 'uv.lock'],
+  ['poetry', 'poetry.lock'],
+  ['pdm', 'pdm.lock'],
+];
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index] as string;
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
+
+function bracketDepth(text: string): number {
+  const unquoted = text.replace(/"(?:\\.|[^"\\])*"|'[^']*'/g, '');
+  return (
+    (unquoted.match(/[[{]/g)?.length ?? 0) -
+    (unquoted.match(/[\]}]/g)?.length ?? 0)
+  );
+}
+
+function unquoteKey(key: string): string {
+  return key
+    .split('.')
+    .map((part) => part.trim().replace(/^["']|["']$/g, ''))
+    .join('.');
+}
+
+// Just enough TOML for dependency lists and tool sections: table headers and
+// keys with their raw values, multi-line arrays joined onto one line
+function parseTomlTables(raw: string): TomlTables {
+  const tables: TomlTables = new Map([['', new Map()]]);
+  let current = tables.get('') as Map<string, string>;
+  let pending: { key: string; value: string } | null = null;
+
+  for (const rawLine of raw.split(/\r?\n/)) {
+    const line = stripComment(rawLine).trim();
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (bracketDepth(pending.value) <= 0) {
+        current.set(pending.key, pending.value);
+        pending = null;
+      }
+      continue;
+    }
+    if (line === '') {
+      continue;
+    }
+    const header = /^\[\[?\s*([^\]]+?)\s*\]\]?$/.exec(line);
+    if (header) {
+      const name = unquoteKey(header[1] as string);
+      current = tables.get(name) ?? new Map();
+      tables.set(name, current);
+      continue;
+    }
+    const entry = /^([^=]+?)\s*=\s*(.*)$/.exec(line);
+    if (!entry) {
+      continue;
+    }
+    const key = unquoteKey(entry[1] as string);
+    const value = entry[2] as string;
+    if (bracketDepth(value) > 0) {
+      pending = { key, value };
+    } else {
+      current.set(key, value);
+    }
+  }
+  return tables;
+}
+
+function quotedStrings(value: string): string[] {
+  return [...value.matchAll(/"((?:\\.|[^"\\])*)"|'([^']*)'/g)].map(
+    (match) => (match[1] ?? match[2]) as string,
+  );
+}
+
+// `requests[socks]>=2; python_version < "3.12"` -> `requests`
+function extractRequirementName(line: string): string | null {
+  const trimmed = line.trim();
+  if (trimmed.length === 0 || trimmed.startsWith('#')) {
+    return null;
+  }
+  const noEnvMarker = trimmed.split(';', 1)[0]?.trim() ?? '';
+  if (noEnvMarker.length === 0) {
+    return null;
+  }
+  const name = noEnvMarker.split(/[<>=!~\[\s@]/, 1)[0]?.trim();
+  if (!name || name.startsWith('-')) {
+    return null;
+  }
+  return name.toLowerCase();
+}
+
+function collectPyprojectRequirements(
+  tables: TomlTables,
+  requirements: Set<string>,
+): void {
+  const addSpecs = (value: string | undefined) => {
+    // Inline tables are group includes, not packages
+    const specs = (value ?? '').replace(/\{[^}]*\}/g, '');
+    for (const spec of quotedStrings(specs)) {
+      const name = extractRequirementName(spec);
+      if (name) {
+        requirements.add(name);
+      }
+    }
+  };
+
+  addSpecs(tables.get('project')?.get('dependencies'));
+  for (const [name, table] of tables) {
+    // PEP 621 extras and PEP 735 groups are both lists of specifiers
+    if (
+      name === 'project.optional-dependencies' ||
+      name === 'dependency-groups'
+    ) {
+      for (const value of table.values()) {
+        addSpecs(value);
+      }
+    }
+    if (/^tool\.hatch\.envs\.[^.]+$/.test(name)) {
+      addSpecs(table.get('dependencies'));
+      addSpecs(table.get('extra-dependencies'));
+    }
+    if (name === 'tool.uv') {
+      addSpecs(table.get('dev-dependencies'));
+    }
+    // Poetry keys its dependency tables by package name
+    if (
+      name === 'tool.poetry.dependencies' ||
+      name === 'tool.poetry.dev-dependencies' ||
+      /^tool\.poetry\.group\.[^.]+\.dependencies$/.test(name)
+    ) {
+      for (const key of table.keys()) {
+        if (key !== 'python') {
+          requirements.add(key.toLowerCase());
+        }
+      }
+    }
+  }
+}
+
+function hasTable(tables: TomlTables, name: string): boolean {
+  return [...tables.keys()].some(
+    (table) => table === name || table.startsWith(`${name}.`),
+  );
+}
+
+function iniSections(raw: string | null): Set<string> {
+  const sections = new Set<string>();
+  for (const match of (raw ?? '').matchAll(/^\s*\[([^\]]+)\]\s*$/gm)) {
+    sections.add((match[1] as string).trim());
+  }
+  return sections;
+}
+
+export async function readPythonProject(
+  cwd: string,
+): Promise<PythonProject | null> {
+  const requirementsRaw = await readText(path.join(cwd, 'requirements.txt'));
+  const pyprojectRaw = await readText(path.join(cwd, 'pyproject.toml'));
+  if (requirementsRaw === null && pyprojectRaw === null) {
+    return null;
+  }
+
+  const requirements = new Set<string>();
+  for (const line of (requirementsRaw ?? '').split(/\r?\n/)) {
+    const name = extractRequirementName(line);
+    if (name) {
+      requirements.add(name);
+    }
+  }
+
+  const tables = parseTomlTables(pyprojectRaw ?? '');
+  collectPyprojectRequirements(tables, requirements);
+
+  const exists = async (name: string) =>
+    (await readText(path.join(cwd, name))) !== null;
+  const setupCfg = iniSections(await readText(path.join(cwd, 'setup.cfg')));
+  const toxIni = await readText(path.join(cwd, 'tox.ini'));
+  const toxSections = iniSections(toxIni);
+
+  const configured = new Set<'ruff' | 'mypy' | 'pytest'>();
+  if (
+    hasTable(tables, 'tool.ruff') ||
+    (await exists('ruff.toml')) ||
+    (await exists('.ruff.toml'))
+  ) {
+    configured.add('ruff');
+  }
+  if (
+    hasTable(tables, 'tool.mypy') ||
+    (await exists('mypy.ini')) ||
+    setupCfg.has('mypy')
+  ) {
+    configured.add('mypy');
+  }
+  if (
+    hasTable(tables, 'tool.pytest.ini_options') ||
+    (await exists('pytest.ini')) ||
+    setupCfg.has('tool:pytest') ||
+    toxSections.has('pytest')
+  ) {
+    configured.add('pytest');
+  }
+
+  let runner: PythonRunner | null = null;
+  for (const [candidate, lockfile] of RUNNER_LOCKFILES) {
+    if (await exists(lockfile)) {
+      runner = candidate;
+      break;
+    }
+  }
+  // Hatch has no lockfile; its environments live in pyproject.toml
+  if (!runner && hasTable(tables, 'tool.hatch.envs')) {
+    runner = 'hatch';
+  }
+
+  return {
+    requirements,
+    configured,
+    tox:
+      [...toxSections].some((section) => /^(?:tox|testenv)/.test(section)) ||
+      hasTable(tables, 'tool.tox') ||
+      setupCfg.has('tox:tox'),
+    runner,
+  };
+}
@@ -0,0 +1,240 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type {
+  GateReporter,
+  GateResult,
+  GateRunSummary,
+  ReporterType,
+} from './types.js';
+import { formatDiagnostics, formatFailureContext } from './output.js';
+
+export const REPORTER_TYPES: ReporterType[] = ['junit', 'sarif'];
+
+export interface ReportOptions {
+  // Config file relative to the project root, where gate-level SARIF results
+  // are placed
+  configFile?: string;
+}
+
+const SARIF_SCHEMA =
+  'https://docs.oasis-open.org/sarif/sarif/v2.1.0/errata01/os/schemas/sarif-schema-2.1.0.json';
+
+// XML 1.0 can't carry most control characters, even escaped
+const INVALID_XML_CHARS =
+  /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function describeResult(result: GateResult): string {
+  if (result.timedOut) {
+    return `timed out after ${result.durationMs}ms`;
+  }
+  return `failed (exit ${result.exitCode ?? 'null'})`;
+}
+
+function formatGateTestCase(result: GateResult): string[] {
+  const open = `    <testcase classname="ralph-gate" name="${escapeXml(result.name)}" time="${seconds(result.durationMs)}"`;
+  const body: string[] = [];
+  if (result.skipped) {
+    const message = result.skipReason
+      ? ` message="${escapeXml(result.skipReason)}"`
+      : '';
+    body.push(`      <skipped${message}/>`);
+  } else if (!result.passed) {
+    const details =
+      result.diagnostics && result.diagnostics.length > 0
+        ? escapeXml(formatDiagnostics(result.diagnostics))
+        : '';
+    body.push(
+      `      <failure message="${escapeXml(describeResult(result))}" type="${result.timedOut ? 'timeout' : 'exit'}">${details}</failure>`,
+    );
+  }
+  if (result.stdout.length > 0) {
+    body.push(`      <system-out>${escapeXml(result.stdout)}</system-out>`);
+  }
+  if (result.stderr.length > 0) {
+    body.push(`      <system-err>${escapeXml(result.stderr)}</system-err>`);
+  }
+  return body.length > 0
+    ? [`${open}>`, ...body, '    </testcase>']
+    : [`${open}/>`];
+}
+
+// Each parsed diagnostic becomes a failed testcase under its gate, so
+// dashboards can list individual problems
+function formatDiagnosticTestCases(result: GateResult): string[] {
+  return (result.diagnostics ?? []).map((diagnostic) => {
+    const location = [diagnostic.file, diagnostic.line, diagnostic.column]
+      .filter((part) => part !== undefined)
+      .join(':');
+    const type = diagnostic.rule ? ` type="${escapeXml(diagnostic.rule)}"` : '';
+    return [
+      `    <testcase classname="ralph-gate.${escapeXml(result.name)}" name="${escapeXml(location)}" file="${escapeXml(diagnostic.file)}" time="0.000">`,
+      `      <failure message="${escapeXml(diagnostic.message)}"${type}/>`,
+      '    </testcase>',
+    ].join('\n');
+  });
+}
+
+export function formatJUnitReport(summary: GateRunSummary): string {
+  const cases = summary.results.flatMap((result) => [
+    ...formatGateTestCase(result),
+    ...formatDiagnosticTestCases(result),
+  ]);
+  const diagnostics = summary.results.reduce(
+    (total, result) => total + (result.diagnostics?.length ?? 0),
+    0,
+  );
+  // Gates held back by a failed dependency are reported as skipped
+  const failures =
+    summary.results.filter((result) => !result.passed && !result.skipped)
+      .length + diagnostics;
+  const skipped = summary.results.filter((result) => result.skipped).length;
+  const tests = summary.results.length + diagnostics;
+  const counts = `tests="${tests}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(summary.totalDurationMs)}"`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="ralph-gate" ${counts}>`,
+    `  <testsuite name="ralph-gate" ${counts} timestamp="${escapeXml(summary.timestamp)}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function formatSarifRun(
+  result: GateResult,
+  options: ReportOptions,
+): Record<string, unknown> {
+  const level = result.blocking ? 'error' : 'warning';
+  const diagnostics = result.diagnostics ?? [];
+  const gateRule = `ralph-gate/${result.name}`;
+  const rules = [
+    ...new Set(
+      diagnostics.flatMap((diagnostic) =>
+        diagnostic.rule ? [diagnostic.rule] : [],
+      ),
+    ),
+  ];
+
+  let results: Record<string, unknown>[] = [];
+  if (diagnostics.length > 0) {
+    results = diagnostics.map((diagnostic) => ({
+      ...(diagnostic.rule ? { ruleId: diagnostic.rule } : {}),
+      level,
+      message: { text: diagnostic.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: diagnostic.file.split(path.sep).join('/'),
+              uriBaseId: '%SRCROOT%',
+            },
+            ...(diagnostic.line !== undefined
+              ? {
+                  region: {
+                    startLine: diagnostic.line,
+                    ...(diagnostic.column !== undefined
+                      ? { startColumn: diagnostic.column }
+                      : {}),
+                  },
+                }
+              : {}),
+          },
+        },
+      ],
+    }));
+  } else if (!result.passed) {
+    // Without parsed findings the whole gate is the one result. Code scanning
+    // needs a rule and a location, so it gets the gate's own rule and points
+    // at the config that declares the gate.
+    rules.push(gateRule);
+    results = [
+      {
+        ruleId: gateRule,
+        level,
+        message: {
+          text: `Gate '${result.name}' ${describeResult(result)}:\n${formatFailureContext(result.stderr, result.stdout)}`,
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: options.configFile
+                  ? options.configFile.split(path.sep).join('/')
+                  : '.',
+                uriBaseId: '%SRCROOT%',
+              },
+              ...(options.configFile ? { region: { startLine: 1 } } : {}),
+            },
+          },
+        ],
+      },
+    ];
+  }
+
+  return {
+    tool: {
+      driver: {
+        name: result.name,
+        rules: rules.map((id) => ({ id })),
+      },
+    },
+    invocations: [
+      {
+        executionSuccessful: result.passed,
+        // SARIF types exitCode as an integer; timeouts and spawn errors have none
+        ...(result.exitCode !== null ? { exitCode: result.exitCode } : {}),
+      },
+    ],
+    results,
+  };
+}
+
+// SARIF 2.1.0 with one run per executed gate, the gate acting as the tool
+export function formatSarifReport(
+  summary: GateRunSummary,
+  options: ReportOptions = {},
+): string {
+  const runs = summary.results
+    .filter((result) => !result.skipped)
+    .map((result) => formatSarifRun(result, options));
+  return `${JSON.stringify({ $schema: SARIF_SCHEMA, version: '2.1.0', runs }, null, 2)}\n`;
+}
+
+const FORMATTERS: Record<
+  ReporterType,
+  (summary: GateRunSummary, options: ReportOptions) => string
+> = {
+  junit: formatJUnitReport,
+  sarif: formatSarifReport,
+};
+
+export async function writeReports(
+  summary: GateRunSummary,
+  reporters: GateReporter[],
+  options: ReportOptions = {},
+): Promise<void> {
+  for (const reporter of reporters) {
+    await fs.mkdir(path.dirname(reporter.outputPath), { recursive: true });
+    await fs.writeFile(
+      reporter.outputPath,
+      FORMATTERS[reporter.type](summary, options),
+      'utf8',
+    );
+  }
+}
@@ -1,20 +1,47 @@
-import { spawn } from 'node:child_process';
-import type { Gate, GateResult, GateRunSummary } from './types.js';
+import { spawn, type ChildProcess } from 'node:child_process';
+import type { Gate, GateAttempt, GateResult, GateRunSummary } from './types.js';
+import { getUnchangedReason } from './changes.js';
+import { parseDiagnostics } from './diagnostics.js';
+import {
+  computeCacheKey,
+  readCachedResult,
+  writeCachedResult,
+} from './cache.js';
 
 export interface RunGatesOptions {
   failFast?: boolean;
   verbose?: boolean;
   shell?: string;
   cwd?: string;
+  timeoutMs?: number;
+  killGraceMs?: number;
+  concurrency?: number;
+  changedFiles?: string[] | null;
+  cacheDir?: string;
+  // Extra variables for every gate, on top of its own env
+  env?: Record<string, string>;
   onGateStart?: (gate: Gate) => void;
   onGateOutput?: (
     gate: Gate,
     stream: 'stdout' | 'stderr',
     text: string,
   ) => void;
+  onGateRetry?: (gate: Gate, failed: GateResult, attempt: number) => void;
   onGateComplete?: (result: GateResult) => void;
 }
 
+function resolveEnv(
+  gate: Gate,
+  extra: Record<string, string> = {},
+): NodeJS.ProcessEnv {
+  if (!gate.env) {
+    return { ...process.env, ...extra };
+  }
+  return gate.envMode === 'replace'
+    ? { ...extra, ...gate.env }
+    : { ...process.env, ...extra, ...gate.env };
+}
+
 function resolveShell(shell?: string): string | boolean {
   if (typeof shell === 'string' && shell.length > 0) {
     return shell;
@@ -23,45 +50,150 @@ function resolveShell(shell?: string): string | boolean {
   return envShell && envShell.length > 0 ? envShell : true;
 }
 
+const DEFAULT_KILL_GRACE_MS = 2000;
+
+function signalProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      child.kill(signal);
+    } else {
+      // Negative pid targets the whole process group the gate leads
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // Group already exited
+  }
+}
+
+// Gates run in their own process groups, so a Ctrl-C or SIGTERM sent to
+// ralph-gate no longer reaches them on its own
+const liveGates = new Set<ChildProcess>();
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+function forwardSignals(): () => void {
+  const handler = (signal: NodeJS.Signals) => {
+    for (const child of liveGates) {
+      signalProcessTree(child, signal);
+    }
+    release();
+    // Without other listeners, die by the signal as if none were installed
+    if (process.listenerCount(signal) === 0) {
+      process.kill(process.pid, signal);
+    }
+  };
+  const release = () => {
+    for (const signal of FORWARDED_SIGNALS) {
+      process.off(signal, handler);
+    }
+  };
+  for (const signal of FORWARDED_SIGNALS) {
+    process.on(signal, handler);
+  }
+  return release;
+}
+
+function createSkippedResult(
+  gate: Gate,
+  skipReason: string,
+  passed = true,
+): GateResult {
+  return {
+    name: gate.name,
+    passed,
+    exitCode: null,
+    stdout: '',
+    stderr: '',
+    durationMs: 0,
+    skipped: true,
+    skipReason,
+    blocking: gate.blocking !== false,
+    timedOut: false,
+    timestamp: new Date().toISOString(),
+  };
+}
+
 async function runGate(
   gate: Gate,
   options: RunGatesOptions,
+  signal?: AbortSignal,
 ): Promise<GateResult> {
   const start = Date.now();
-  const shell = resolveShell(options.shell);
-  const env = process.env;
+  const shell = resolveShell(gate.shell ?? options.shell);
+  const env = resolveEnv(gate, options.env);
+  const timeoutMs = gate.timeoutMs ?? options.timeoutMs;
+  const killGraceMs = options.killGraceMs ?? DEFAULT_KILL_GRACE_MS;
 
   return new Promise((resolve) => {
     options.onGateStart?.(gate);
     const child = spawn(gate.command, {
       shell,
       env,
-      cwd: options.cwd,
+      cwd: gate.cwd ?? options.cwd,
+      // Own process group so a timeout can take down every descendant
+      detached: process.platform !== 'win32',
     });
+    liveGates.add(child);
 
     let stdout = '';
     let stderr = '';
     let exitCode: number | null = null;
     let resolved = false;
+    let timedOut = false;
+    let cancelled = false;
+    let timeoutTimer: NodeJS.Timeout | undefined;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const terminate = () => {
+      signalProcessTree(child, 'SIGTERM');
+      killTimer = setTimeout(() => {
+        signalProcessTree(child, 'SIGKILL');
+      }, killGraceMs);
+    };
+
+    const onAbort = () => {
+      if (resolved || timedOut) {
+        return;
+      }
+      cancelled = true;
+      clearTimeout(timeoutTimer);
+      terminate();
+    };
+
+    if (typeof timeoutMs === 'number' && timeoutMs > 0) {
+      timeoutTimer = setTimeout(() => {
+        timedOut = true;
+        terminate();
+      }, timeoutMs);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     const finalize = () => {
       if (resolved) {
         return;
       }
       resolved = true;
+      liveGates.delete(child);
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      signal?.removeEventListener('abort', onAbort);
       const durationMs = Date.now() - start;
+      // A gate cancelled by fail-fast is reported as skipped, not failed
       const result: GateResult = {
         name: gate.name,
-        passed: exitCode === 0,
+        passed: cancelled || (exitCode === 0 && !timedOut),
         exitCode,
         stdout,
         stderr,
         durationMs,
-        skipped: false,
+        skipped: cancelled,
+        skipReason: cancelled ? 'cancelled after blocking failure' : undefined,
         blocking: gate.blocking !== false,
+        timedOut,
         timestamp: new Date().toISOString(),
       };
-      options.onGateComplete?.(result);
       resolve(result);
     };
 
@@ -96,51 +228,267 @@ async function runGate(
   });
 }
 
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+function toAttempt(result: GateResult): GateAttempt {
+  return {
+    exitCode: result.exitCode,
+    stdout: result.stdout,
+    stderr: result.stderr,
+    durationMs: result.durationMs,
+    timedOut: result.timedOut,
+    timestamp: result.timestamp,
+  };
+}
+
+async function runWithRetries(
+  gate: Gate,
+  options: RunGatesOptions,
+  signal: AbortSignal,
+): Promise<GateResult> {
+  const retries = gate.retries ?? 0;
+  let result = await runGate(gate, options, signal);
+  if (retries === 0) {
+    return result;
+  }
+
+  const attempts = [toAttempt(result)];
+  while (!result.passed && attempts.length <= retries && !signal.aborted) {
+    options.onGateRetry?.(gate, result, attempts.length + 1);
+    await delay(gate.retryDelayMs ?? 0, signal);
+    if (signal.aborted) {
+      break;
+    }
+    result = await runGate(gate, options, signal);
+    attempts.push(toAttempt(result));
+  }
+
+  const durationMs = attempts.reduce(
+    (total, attempt) => total + attempt.durationMs,
+    0,
+  );
+  return {
+    ...result,
+    durationMs,
+    attempts,
+    // Passing only after a failed attempt means the gate can't be trusted
+    flaky: result.passed && !result.skipped && attempts.length > 1,
+  };
+}
+
+async function executeGate(
+  gate: Gate,
+  options: RunGatesOptions,
+  signal: AbortSignal,
+): Promise<GateResult> {
+  const key =
+    options.cacheDir && gate.inputs && gate.inputs.length > 0
+      ? await computeCacheKey(gate, gate.cwd ?? options.cwd).catch(() => null)
+      : null;
+
+  if (options.cacheDir && key) {
+    const hit = await readCachedResult(options.cacheDir, key);
+    if (hit) {
+      // Retries belong to the run that was cached, not to this one
+      const { attempts, flaky, ...cachedResult } = hit;
+      const result: GateResult = {
+        ...cachedResult,
+        name: gate.name,
+        blocking: gate.blocking !== false,
+        cached: true,
+        timestamp: new Date().toISOString(),
+      };
+      options.onGateComplete?.(result);
+      return result;
+    }
+  }
+
+  const result = await runWithRetries(gate, options, signal);
+  if (!result.passed) {
+    const diagnostics = parseDiagnostics(
+      gate,
+      `${result.stdout}\n${result.stderr}`,
+      options.cwd,
+    );
+    if (diagnostics.length > 0) {
+      result.diagnostics = diagnostics;
+    }
+  }
+  options.onGateComplete?.(result);
+  // A flaky pass isn't trusted enough to skip the gate next time
+  if (
+    options.cacheDir &&
+    key &&
+    result.passed &&
+    !result.skipped &&
+    !result.flaky
+  ) {
+    await writeCachedResult(options.cacheDir, key, result);
+  }
+  return result;
+}
+
 export async function runGates(
   gates: Gate[],
   options: RunGatesOptions = {},
 ): Promise<GateRunSummary> {
-  const results: GateResult[] = [];
-  const warnings: string[] = [];
   const start = Date.now();
-  let firstFailure: GateResult | null = null;
+  const failFast = options.failFast !== false;
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+  const names = new Set(gates.map((gate) => gate.name));
+  const results = new Map<number, GateResult>();
+  // Whether each finished gate lets its dependents run
+  const settled = new Map<string, boolean>();
+  const inFlight = new Map<
+    number,
+    { gate: Gate; controller: AbortController; done: Promise<void> }
+  >();
+  let pending = gates.map((gate, index) => ({ gate, index }));
+  let blockingFailed = false;
+  const releaseSignals = forwardSignals();
 
-  for (const gate of gates) {
-    const isBlocking = gate.blocking !== false;
-    const shouldSkip =
-      options.failFast !== false && firstFailure !== null && isBlocking;
+  const record = (index: number, result: GateResult, satisfied: boolean) => {
+    results.set(index, result);
+    settled.set(result.name, satisfied);
+  };
 
-    if (shouldSkip) {
-      const skippedResult: GateResult = {
-        name: gate.name,
-        passed: true,
-        exitCode: null,
-        stdout: '',
-        stderr: '',
-        durationMs: 0,
-        skipped: true,
-        blocking: isBlocking,
-        timestamp: new Date().toISOString(),
-      };
-      results.push(skippedResult);
-      options.onGateComplete?.(skippedResult);
-      continue;
-    }
+  const skip = (
+    gate: Gate,
+    index: number,
+    reason: string,
+    satisfied = false,
+    passed = true,
+  ) => {
+    const skippedResult = createSkippedResult(gate, reason, passed);
+    record(index, skippedResult, satisfied);
+    options.onGateComplete?.(skippedResult);
+  };
+
+  const launch = (gate: Gate, index: number) => {
+    const controller = new AbortController();
+    const done = executeGate(gate, options, controller.signal).then(
+      (result) => {
+        inFlight.delete(index);
+        record(index, result, result.passed && !result.skipped);
+        if (!result.passed && result.blocking && failFast) {
+          blockingFailed = true;
+          for (const entry of inFlight.values()) {
+            if (entry.gate.blocking !== false) {
+              entry.controller.abort();
+            }
+          }
+        }
+      },
+    );
+    inFlight.set(index, { gate, controller, done });
+  };
 
-    const result = await runGate(gate, options);
-    results.push(result);
+  try {
+    while (pending.length > 0 || inFlight.size > 0) {
+      // Skipping one gate can decide its dependents too, so repeat until stable
+      let changed = true;
+      while (changed) {
+        changed = false;
+        const remaining: typeof pending = [];
+        for (const entry of pending) {
+          const { gate, index } = entry;
+          const failedDep = (gate.dependsOn ?? []).find(
+            (dep) => settled.get(dep) === false,
+          );
+          if (failFast && blockingFailed && gate.blocking !== false) {
+            skip(gate, index, 'fail-fast after blocking failure');
+            changed = true;
+            continue;
+          }
+          // A blocking gate that never got to run can't count as passing
+          if (failedDep) {
+            skip(
+              gate,
+              index,
+              `dependency '${failedDep}' did not pass`,
+              false,
+              gate.blocking === false,
+            );
+            changed = true;
+            continue;
+          }
+          // Untouched gates count as satisfied so their dependents still run
+          const unchangedReason = getUnchangedReason(
+            gate,
+            options.changedFiles,
+          );
+          if (unchangedReason) {
+            skip(gate, index, unchangedReason, true);
+            changed = true;
+            continue;
+          }
+          remaining.push(entry);
+        }
+        pending = remaining;
+      }
 
-    if (!result.passed) {
-      if (result.blocking) {
-        if (!firstFailure) {
-          firstFailure = result;
+      const waiting: typeof pending = [];
+      for (const entry of pending) {
+        const { gate, index } = entry;
+        const ready = (gate.dependsOn ?? []).every(
+          (dep) => !names.has(dep) || settled.has(dep),
+        );
+        if (ready && inFlight.size < concurrency) {
+          launch(gate, index);
+        } else {
+          waiting.push(entry);
         }
-      } else {
-        warnings.push(result.name);
       }
+      pending = waiting;
+
+      if (inFlight.size === 0) {
+        // Nothing running and nothing startable: only a dependency cycle gets here
+        for (const { gate, index } of pending) {
+          skip(gate, index, 'dependency cycle');
+        }
+        pending = [];
+        break;
+      }
+
+      await Promise.race([...inFlight.values()].map((entry) => entry.done));
     }
+  } finally {
+    releaseSignals();
   }
 
+  const ordered = gates.map((_gate, index) => results.get(index) as GateResult);
+  const blockingFailures = ordered.filter(
+    (result) => !result.passed && result.blocking,
+  );
+  // Report a gate that actually failed over the dependents it held back
+  const firstFailure =
+    blockingFailures.find((result) => !result.skipped) ??
+    blockingFailures[0] ??
+    null;
+  const warnings = ordered
+    .filter((result) => !result.passed && !result.blocking)
+    .map((result) => result.name);
+  const cached = ordered
+    .filter((result) => result.cached)
+    .map((result) => result.name);
+  const flaky = ordered
+    .filter((result) => result.flaky)
+    .map((result) => result.name);
+
   const totalDurationMs = Date.now() - start;
   const passed = firstFailure === null;
 
@@ -148,8 +496,10 @@ export async function runGates(
     passed,
     timestamp: new Date().toISOString(),
     totalDurationMs,
-    results,
+    results: ordered,
     firstFailure,
     warnings,
+    cached,
+    flaky,
   };
 }
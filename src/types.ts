@@ -1,3 +1,15 @@
+export type DiagnosticParser =
+  | 'tsc'
+  | 'eslint'
+  | 'vitest'
+  | 'jest'
+  | 'pytest'
+  | 'ruff'
+  | 'mypy'
+  | 'none';
+
+export type HookEvent = 'Stop' | 'SubagentStop' | 'PostToolUse';
+
 export interface Gate {
   name: string;
   command: string;
@@ -5,6 +17,38 @@ export interface Gate {
   order?: number;
   enabled?: boolean;
   blocking?: boolean;
+  timeoutMs?: number;
+  dependsOn?: string[];
+  paths?: string[];
+  inputs?: string[];
+  inputEnv?: string[];
+  retries?: number;
+  retryDelayMs?: number;
+  cwd?: string;
+  env?: Record<string, string>;
+  envMode?: 'merge' | 'replace';
+  shell?: string;
+  workspace?: string;
+  tags?: string[];
+  parser?: DiagnosticParser;
+  events?: HookEvent[];
+}
+
+export interface Diagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  rule?: string;
+}
+
+export interface GateAttempt {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+  timestamp: string;
 }
 
 export interface GateResult {
@@ -15,7 +59,13 @@ export interface GateResult {
   stderr: string;
   durationMs: number;
   skipped: boolean;
+  skipReason?: string;
   blocking: boolean;
+  timedOut: boolean;
+  cached?: boolean;
+  attempts?: GateAttempt[];
+  flaky?: boolean;
+  diagnostics?: Diagnostic[];
   timestamp: string;
 }
 
@@ -26,16 +76,126 @@ export interface GateRunSummary {
   results: GateResult[];
   firstFailure: GateResult | null;
   warnings: string[];
+  cached: string[];
+  flaky: string[];
+}
+
+export interface HistoryGateEntry {
+  name: string;
+  passed: boolean;
+  skipped: boolean;
+  durationMs: number;
+  timedOut?: boolean;
+  cached?: boolean;
+  flaky?: boolean;
+}
+
+export interface HistoryEntry {
+  timestamp: string;
+  passed: boolean;
+  totalDurationMs: number;
+  firstFailure: string | null;
+  profile?: string;
+  gates: HistoryGateEntry[];
+}
+
+export interface GateStats {
+  name: string;
+  runs: number;
+  skipped: number;
+  passRate: number;
+  p50DurationMs: number;
+  p95DurationMs: number;
+  flaky: number;
+  firstFailures: number;
+}
+
+export interface HistoryStats {
+  runs: number;
+  passRate: number;
+  gates: GateStats[];
+  mostFrequentFirstFailure: { name: string; count: number } | null;
+}
+
+export interface GateProfile {
+  gates?: string[];
+  tags?: string[];
+  failFast?: boolean;
+  timeoutMs?: number;
+}
+
+export type ReporterType = 'junit' | 'sarif';
+
+export interface GateReporter {
+  type: ReporterType;
+  outputPath: string;
+}
+
+export interface LoopGuard {
+  maxConsecutiveBlocks: number;
+  action?: 'allow' | 'escalate' | 'notify';
+  notifyCommand?: string;
+  message?: string;
+}
+
+export interface HookOutputOptions {
+  // Show non-blocking problems to the user on passing runs (default true)
+  systemMessage?: boolean;
+  // Keep the hook's stdout out of the transcript
+  suppressOutput?: boolean;
+  // Gates whose failure stops Claude entirely instead of asking for a fix
+  stopOn?: string[];
+  stopReason?: string;
 }
 
 export interface GateConfig {
+  extends?: string | string[];
   gates: Gate[];
   outputPath?: string;
   failFast?: boolean;
+  timeoutMs?: number;
+  concurrency?: number;
+  profiles?: Record<string, GateProfile>;
+  reporters?: GateReporter[];
+  history?: boolean;
+  ordering?: 'static' | 'adaptive';
+  orderingBand?: number;
+  loopGuard?: LoopGuard;
+  hookOutput?: HookOutputOptions;
+}
+
+export interface ConfigContext {
+  cwd: string;
+  changedFiles: string[] | null;
+  ci: boolean;
+}
+
+export type ConfigExport =
+  | GateConfig
+  | ((context: ConfigContext) => GateConfig | Promise<GateConfig>);
+
+// Payload Claude Code sends to hooks on stdin
+export interface HookInput {
+  session_id?: string;
+  transcript_path?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  stop_hook_active?: boolean;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
 }
 
 export interface HookOutput {
+  continue?: boolean;
+  stopReason?: string;
+  suppressOutput?: boolean;
+  systemMessage?: string;
   decision?: 'block';
   reason?: string;
+  // Not read by Claude Code; kept for scripts consuming the JSON
   warnings?: string[];
+  hookSpecificOutput?: {
+    hookEventName: HookEvent;
+    additionalContext?: string;
+  };
 }
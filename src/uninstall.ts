@@ -0,0 +1,233 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { CONFIG_FILES } from './config.js';
+import { DEFAULT_CACHE_DIR } from './cache.js';
+import {
+  formatLineDiff,
+  getClaudeSettingsPath,
+  GITIGNORE_MARKER,
+  GITIGNORE_PATTERN,
+  isRalphGateHookCommand,
+  type HookScope,
+} from './init.js';
+
+export interface UninstallOptions {
+  cwd?: string;
+  // User settings are shared by every project, so they're only touched when
+  // asked for
+  scopes?: HookScope[];
+  removeConfig?: boolean;
+  removeResults?: boolean;
+  dryRun?: boolean;
+}
+
+export interface UninstallAction {
+  path: string;
+  kind: 'update' | 'delete';
+  summary: string;
+  diff?: string;
+}
+
+export interface UninstallResult {
+  actions: UninstallAction[];
+  errors: string[];
+}
+
+const DEFAULT_SCOPES: HookScope[] = ['local', 'project'];
+
+const RESULTS_DIRS = ['gate-results', path.dirname(DEFAULT_CACHE_DIR)];
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Removes ralph-gate hook commands and whatever that leaves empty, keeping
+// every other hook, entry and setting as it was
+function removeHooks(settings: Record<string, unknown>): string[] {
+  const hooks = settings.hooks;
+  if (!isObject(hooks)) {
+    return [];
+  }
+  const removed: string[] = [];
+  for (const [event, entries] of Object.entries(hooks)) {
+    if (!Array.isArray(entries)) {
+      continue;
+    }
+    const kept = entries.flatMap((entry: unknown) => {
+      if (!isObject(entry) || !Array.isArray(entry.hooks)) {
+        return [entry];
+      }
+      const commands = entry.hooks.filter(
+        (hook: unknown) =>
+          !(
+            isObject(hook) &&
+            typeof hook.command === 'string' &&
+            isRalphGateHookCommand(hook.command)
+          ),
+      );
+      if (commands.length === entry.hooks.length) {
+        return [entry];
+      }
+      removed.push(event);
+      return commands.length > 0 ? [{ ...entry, hooks: commands }] : [];
+    });
+    if (kept.length > 0) {
+      hooks[event] = kept;
+    } else if (entries.length > 0 && removed.includes(event)) {
+      delete hooks[event];
+    }
+  }
+  if (removed.length > 0 && Object.keys(hooks).length === 0) {
+    delete settings.hooks;
+  }
+  return [...new Set(removed)];
+}
+
+async function uninstallHooks(
+  settingsPath: string,
+  dryRun: boolean,
+  result: UninstallResult,
+): Promise<void> {
+  const content = await readText(settingsPath);
+  if (content === null) {
+    return;
+  }
+  let settings: unknown;
+  try {
+    settings = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.errors.push(
+      `Not changing ${settingsPath}: it could not be parsed (${message}).`,
+    );
+    return;
+  }
+  if (!isObject(settings)) {
+    return;
+  }
+
+  const events = removeHooks(settings);
+  if (events.length === 0) {
+    return;
+  }
+  const summary = `removed the ralph-gate ${events.join(', ')} hook(s)`;
+  // init creates the file when it's missing; hand back nothing but `{}`
+  if (Object.keys(settings).length === 0) {
+    result.actions.push({ path: settingsPath, kind: 'delete', summary });
+    if (!dryRun) {
+      await fs.rm(settingsPath, { force: true });
+    }
+    return;
+  }
+  const updated = `${JSON.stringify(settings, null, 2)}\n`;
+  result.actions.push({
+    path: settingsPath,
+    kind: 'update',
+    summary,
+    diff: formatLineDiff(content, updated),
+  });
+  if (!dryRun) {
+    await fs.writeFile(settingsPath, updated, 'utf8');
+  }
+}
+
+async function uninstallGitignore(
+  cwd: string,
+  dryRun: boolean,
+  result: UninstallResult,
+): Promise<void> {
+  const gitignorePath = path.join(cwd, '.gitignore');
+  const content = await readText(gitignorePath);
+  if (content === null) {
+    return;
+  }
+  // Only the marked pattern was added by init; an unmarked one is the user's
+  const lines = content.split('\n');
+  const kept = lines.filter(
+    (line, index) =>
+      !(
+        line.trim() === GITIGNORE_MARKER &&
+        lines[index + 1]?.trim() === GITIGNORE_PATTERN
+      ) &&
+      !(
+        line.trim() === GITIGNORE_PATTERN &&
+        lines[index - 1]?.trim() === GITIGNORE_MARKER
+      ),
+  );
+  if (kept.length === lines.length) {
+    return;
+  }
+  const updated = kept.join('\n');
+  const summary = `removed ${GITIGNORE_PATTERN}`;
+  if (updated.trim() === '') {
+    result.actions.push({ path: gitignorePath, kind: 'delete', summary });
+    if (!dryRun) {
+      await fs.rm(gitignorePath, { force: true });
+    }
+    return;
+  }
+  result.actions.push({
+    path: gitignorePath,
+    kind: 'update',
+    summary,
+    diff: formatLineDiff(content, updated),
+  });
+  if (!dryRun) {
+    await fs.writeFile(gitignorePath, updated, 'utf8');
+  }
+}
+
+// Reverses init: the hooks it installed and the .gitignore line it added,
+// plus the config and run results when asked
+export async function uninstall(
+  options: UninstallOptions = {},
+): Promise<UninstallResult> {
+  const cwd = options.cwd ?? process.cwd();
+  const dryRun = options.dryRun ?? false;
+  const result: UninstallResult = { actions: [], errors: [] };
+
+  for (const scope of options.scopes ?? DEFAULT_SCOPES) {
+    await uninstallHooks(getClaudeSettingsPath(cwd, scope), dryRun, result);
+  }
+  await uninstallGitignore(cwd, dryRun, result);
+
+  const removals: Array<[string, string]> = [];
+  if (options.removeConfig) {
+    for (const filename of CONFIG_FILES) {
+      removals.push([path.join(cwd, filename), 'config file']);
+    }
+  }
+  if (options.removeResults) {
+    for (const dir of RESULTS_DIRS) {
+      removals.push([path.join(cwd, dir), 'gate results and local state']);
+    }
+  }
+  for (const [target, summary] of removals) {
+    if (!(await exists(target))) {
+      continue;
+    }
+    result.actions.push({ path: target, kind: 'delete', summary });
+    if (!dryRun) {
+      await fs.rm(target, { recursive: true, force: true });
+    }
+  }
+
+  return result;
+}
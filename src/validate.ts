@@ -0,0 +1,616 @@
+import type { Gate, HookEvent, ReporterType } from './types.js';
+import { HOOK_EVENTS } from './hook.js';
+import { REPORTER_TYPES } from './reporters.js';
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+  // Unknown fields are warnings: they don't stop a run, but `validate` fails on them
+  severity: 'error' | 'warning';
+}
+
+// The gates one file declares, before `extends` merges them with its bases
+export interface GateSource {
+  file: string;
+  gates: unknown;
+}
+
+export interface ValidateOptions {
+  // Skip what a run has always tolerated: bad values in normalized fields
+  // and duplicate gate names
+  lenient?: boolean;
+}
+
+interface FieldRule {
+  check: (value: unknown) => boolean;
+  expected: string;
+}
+
+const nonEmptyString: FieldRule = {
+  check: (value) => typeof value === 'string' && value.trim() !== '',
+  expected: 'a non-empty string',
+};
+
+const anyString: FieldRule = {
+  check: (value) => typeof value === 'string',
+  expected: 'a string',
+};
+
+const finiteNumber: FieldRule = {
+  check: (value) => typeof value === 'number' && Number.isFinite(value),
+  expected: 'a number',
+};
+
+const positiveNumber: FieldRule = {
+  check: (value) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0,
+  expected: 'a positive number',
+};
+
+const nonNegativeNumber: FieldRule = {
+  check: (value) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0,
+  expected: 'a non-negative number',
+};
+
+const positiveInteger: FieldRule = {
+  check: (value) => Number.isInteger(value) && (value as number) > 0,
+  expected: 'a positive integer',
+};
+
+const nonNegativeInteger: FieldRule = {
+  check: (value) => Number.isInteger(value) && (value as number) >= 0,
+  expected: 'a non-negative integer',
+};
+
+const boolean: FieldRule = {
+  check: (value) => typeof value === 'boolean',
+  expected: 'a boolean',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const object: FieldRule = { check: isObject, expected: 'an object' };
+
+const array: FieldRule = { check: Array.isArray, expected: 'an array' };
+
+function stringList(items: string): FieldRule {
+  return {
+    check: (value) =>
+      Array.isArray(value) &&
+      value.every((item) => typeof item === 'string' && item.trim() !== ''),
+    expected: `an array of ${items}`,
+  };
+}
+
+function oneOf(values: string[]): FieldRule {
+  return {
+    check: (value) => typeof value === 'string' && values.includes(value),
+    expected: values.map((value) => `'${value}'`).join(' or '),
+  };
+}
+
+const hookEventList: FieldRule = {
+  check: (value) =>
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((event) => HOOK_EVENTS.includes(event as HookEvent)),
+  expected: `a non-empty array of ${HOOK_EVENTS.join(', ')}`,
+};
+
+const stringRecord: FieldRule = {
+  check: (value) =>
+    isObject(value) &&
+    Object.values(value).every((item) => typeof item === 'string'),
+  expected: 'an object of string values',
+};
+
+const stringOrList: FieldRule = {
+  check: (value) =>
+    nonEmptyString.check(value) || stringList('strings').check(value),
+  expected: 'a string or an array of strings',
+};
+
+const GATE_FIELDS: Record<string, FieldRule> = {
+  name: nonEmptyString,
+  command: nonEmptyString,
+  description: anyString,
+  order: finiteNumber,
+  enabled: boolean,
+  blocking: boolean,
+  timeoutMs: positiveNumber,
+  dependsOn: stringList('gate names'),
+  paths: stringList('glob patterns'),
+  inputs: stringList('glob patterns'),
+  inputEnv: stringList('environment variable names'),
+  retries: nonNegativeInteger,
+  retryDelayMs: nonNegativeNumber,
+  cwd: nonEmptyString,
+  env: stringRecord,
+  envMode: oneOf(['merge', 'replace']),
+  shell: nonEmptyString,
+  workspace: nonEmptyString,
+  tags: stringList('tag names'),
+  parser: oneOf([
+    'tsc',
+    'eslint',
+    'vitest',
+    'jest',
+    'pytest',
+    'ruff',
+    'mypy',
+    'none',
+  ]),
+  events: hookEventList,
+};
+
+const reporterList: FieldRule = {
+  check: (value) =>
+    Array.isArray(value) &&
+    value.every(
+      (reporter) =>
+        isObject(reporter) &&
+        Object.keys(reporter).every((key) =>
+          ['type', 'outputPath'].includes(key),
+        ) &&
+        REPORTER_TYPES.includes(reporter.type as ReporterType) &&
+        nonEmptyString.check(reporter.outputPath),
+    ),
+  expected: `an array of { type, outputPath } with type ${REPORTER_TYPES.map((type) => `'${type}'`).join(' or ')}`,
+};
+
+const CONFIG_FIELDS: Record<string, FieldRule> = {
+  $schema: anyString,
+  extends: stringOrList,
+  gates: array,
+  outputPath: nonEmptyString,
+  failFast: boolean,
+  timeoutMs: positiveNumber,
+  concurrency: positiveInteger,
+  profiles: object,
+  reporters: reporterList,
+  history: boolean,
+  ordering: oneOf(['static', 'adaptive']),
+  orderingBand: positiveNumber,
+  loopGuard: object,
+  hookOutput: object,
+};
+
+// Fields the loader has always normalized instead of rejecting. A run keeps
+// doing that; only `ralph-gate validate` reports bad values in them.
+const unchecked: FieldRule = { check: () => true, expected: 'any value' };
+
+const LENIENT_GATE_FIELDS: Record<string, FieldRule> = {
+  ...GATE_FIELDS,
+  description: unchecked,
+  order: unchecked,
+  enabled: unchecked,
+  blocking: unchecked,
+};
+
+const LENIENT_CONFIG_FIELDS: Record<string, FieldRule> = {
+  ...CONFIG_FIELDS,
+  failFast: unchecked,
+  outputPath: unchecked,
+};
+
+const PROFILE_FIELDS: Record<string, FieldRule> = {
+  gates: stringList('gate names'),
+  tags: stringList('tag names'),
+  failFast: boolean,
+  timeoutMs: positiveNumber,
+};
+
+const LOOP_GUARD_FIELDS: Record<string, FieldRule> = {
+  maxConsecutiveBlocks: positiveInteger,
+  action: oneOf(['allow', 'escalate', 'notify']),
+  notifyCommand: nonEmptyString,
+  message: nonEmptyString,
+};
+
+const HOOK_OUTPUT_FIELDS: Record<string, FieldRule> = {
+  systemMessage: boolean,
+  suppressOutput: boolean,
+  stopOn: stringList('gate names'),
+  stopReason: nonEmptyString,
+};
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let previous = row[0] as number;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const current = row[j] as number;
+      row[j] = Math.min(
+        (row[j] as number) + 1,
+        (row[j - 1] as number) + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      previous = current;
+    }
+  }
+  return row[b.length] as number;
+}
+
+function unknownFieldMessage(key: string, known: string[]): string {
+  const suggestion = known.find(
+    (candidate) =>
+      editDistance(key.toLowerCase(), candidate.toLowerCase()) <= 2,
+  );
+  return suggestion
+    ? `Unknown field '${key}'. Did you mean '${suggestion}'?`
+    : `Unknown field '${key}'.`;
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  rules: Record<string, FieldRule>,
+  basePath: string,
+  describe: (field: string, expected: string) => string,
+  issues: ConfigIssue[],
+): void {
+  const known = Object.keys(rules);
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const fieldPath = basePath ? `${basePath}.${key}` : key;
+    const rule = rules[key];
+    if (!rule) {
+      issues.push({
+        path: fieldPath,
+        message: unknownFieldMessage(key, known),
+        severity: 'warning',
+      });
+      continue;
+    }
+    if (fieldValue !== undefined && !rule.check(fieldValue)) {
+      issues.push({
+        path: fieldPath,
+        message: describe(key, rule.expected),
+        severity: 'error',
+      });
+    }
+  }
+}
+
+function validateGateEntry(
+  gate: unknown,
+  gatePath: string,
+  issues: ConfigIssue[],
+  lenient: boolean,
+  // Entries in an extending file may override a base gate by name alone
+  requireCommand = true,
+): void {
+  if (!isObject(gate)) {
+    issues.push({
+      path: gatePath,
+      message: 'Gate entries must be objects.',
+      severity: 'error',
+    });
+    return;
+  }
+
+  const name = nonEmptyString.check(gate.name) ? (gate.name as string) : null;
+  if (!name) {
+    issues.push({
+      path: `${gatePath}.name`,
+      message: 'Gate is missing required field: name.',
+      severity: 'error',
+    });
+  }
+  if (
+    (requireCommand || gate.command !== undefined) &&
+    !nonEmptyString.check(gate.command)
+  ) {
+    issues.push({
+      path: `${gatePath}.command`,
+      message: `Gate '${name ?? '?'}' is missing required field: command.`,
+      severity: 'error',
+    });
+  }
+
+  const { name: _name, command: _command, ...rest } = gate;
+  checkFields(
+    rest,
+    lenient ? LENIENT_GATE_FIELDS : GATE_FIELDS,
+    gatePath,
+    (field, expected) =>
+      `Gate '${name ?? '?'}' has invalid ${field}: expected ${expected}.`,
+    issues,
+  );
+}
+
+function findDependencyCycle(gates: Gate[]): string | null {
+  const byName = new Map(gates.map((gate) => [gate.name, gate]));
+  const visited = new Set<string>();
+  const stack: string[] = [];
+  const visit = (name: string): string | null => {
+    const cycleStart = stack.indexOf(name);
+    if (cycleStart !== -1) {
+      return [...stack.slice(cycleStart), name].join(' -> ');
+    }
+    if (visited.has(name)) {
+      return null;
+    }
+    stack.push(name);
+    for (const dep of byName.get(name)?.dependsOn ?? []) {
+      const cycle = visit(dep);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    stack.pop();
+    visited.add(name);
+    return null;
+  };
+
+  for (const gate of gates) {
+    const cycle = visit(gate.name);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+function indexGateNames(
+  gates: unknown[],
+  issues: ConfigIssue[],
+  lenient: boolean,
+  prefix = '',
+): Map<string, number> {
+  const firstIndex = new Map<string, number>();
+  gates.forEach((gate, index) => {
+    if (!isObject(gate) || !nonEmptyString.check(gate.name)) {
+      return;
+    }
+    const name = gate.name as string;
+    const seen = firstIndex.get(name);
+    if (seen === undefined) {
+      firstIndex.set(name, index);
+      return;
+    }
+    if (lenient) {
+      return;
+    }
+    issues.push({
+      path: `${prefix}gates[${index}].name`,
+      message: `Duplicate gate name '${name}' (also used by ${prefix}gates[${seen}]).`,
+      severity: 'error',
+    });
+  });
+  return firstIndex;
+}
+
+// Each file's entries are checked where they were written, so paths point
+// into that file instead of the merged gate list
+function validateGateSources(
+  sources: GateSource[],
+  issues: ConfigIssue[],
+  lenient: boolean,
+): void {
+  for (const { file, gates } of sources) {
+    if (gates === undefined) {
+      continue;
+    }
+    if (!Array.isArray(gates)) {
+      issues.push({
+        path: `${file}:gates`,
+        message: "'gates' must be an array.",
+        severity: 'error',
+      });
+      continue;
+    }
+    gates.forEach((gate, index) => {
+      validateGateEntry(
+        gate,
+        `${file}:gates[${index}]`,
+        issues,
+        lenient,
+        false,
+      );
+    });
+    indexGateNames(gates, issues, lenient, `${file}:`);
+  }
+}
+
+function validateGateReferences(
+  gates: unknown[],
+  issues: ConfigIssue[],
+  lenient: boolean,
+): void {
+  const wellFormed = gates.filter(
+    (gate): gate is Gate => isObject(gate) && nonEmptyString.check(gate.name),
+  );
+  const firstIndex = indexGateNames(gates, issues, lenient);
+
+  gates.forEach((gate, index) => {
+    if (!isObject(gate) || !GATE_FIELDS.dependsOn!.check(gate.dependsOn)) {
+      return;
+    }
+    (gate.dependsOn as string[]).forEach((dep, depIndex) => {
+      if (!firstIndex.has(dep)) {
+        issues.push({
+          path: `gates[${index}].dependsOn[${depIndex}]`,
+          message: `Gate '${String(gate.name)}' depends on unknown gate '${dep}'.`,
+          severity: 'error',
+        });
+      }
+    });
+  });
+
+  const cycle = findDependencyCycle(
+    wellFormed.map((gate) => ({
+      ...gate,
+      dependsOn: Array.isArray(gate.dependsOn) ? gate.dependsOn : [],
+    })),
+  );
+  if (cycle) {
+    const start = cycle.split(' -> ')[0] as string;
+    issues.push({
+      path: `gates[${firstIndex.get(start)}].dependsOn`,
+      message: `Dependency cycle detected: ${cycle}.`,
+      severity: 'error',
+    });
+  }
+}
+
+function validateProfiles(
+  profiles: Record<string, unknown>,
+  gateNames: Set<string>,
+  issues: ConfigIssue[],
+): void {
+  for (const [name, profile] of Object.entries(profiles)) {
+    const profilePath = `profiles.${name}`;
+    if (!isObject(profile)) {
+      issues.push({
+        path: profilePath,
+        message: `Profile '${name}' must be an object.`,
+        severity: 'error',
+      });
+      continue;
+    }
+    checkFields(
+      profile,
+      PROFILE_FIELDS,
+      profilePath,
+      (field, expected) =>
+        `Profile '${name}' has invalid ${field}: expected ${expected}.`,
+      issues,
+    );
+    if (PROFILE_FIELDS.gates!.check(profile.gates)) {
+      (profile.gates as string[]).forEach((gate, index) => {
+        if (!gateNames.has(gate)) {
+          issues.push({
+            path: `${profilePath}.gates[${index}]`,
+            message: `Profile '${name}' references unknown gate '${gate}'.`,
+            severity: 'error',
+          });
+        }
+      });
+    }
+  }
+}
+
+// Checks a parsed (and extends-resolved) config, collecting every problem
+// with its JSON path instead of stopping at the first one. With the gates of
+// each file in an `extends` chain, entries are checked per file and only the
+// cross-gate checks run on the merged list.
+export function validateConfig(
+  config: unknown,
+  sources: GateSource[] = [],
+  options: ValidateOptions = {},
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const lenient = options.lenient ?? false;
+  if (!isObject(config)) {
+    return [
+      { path: '', message: 'Config must be an object.', severity: 'error' },
+    ];
+  }
+
+  checkFields(
+    config,
+    lenient ? LENIENT_CONFIG_FIELDS : CONFIG_FIELDS,
+    '',
+    (field, expected) => `'${field}' must be ${expected}.`,
+    issues,
+  );
+
+  if (config.gates === undefined) {
+    issues.push({
+      path: 'gates',
+      message: "Missing required 'gates' array.",
+      severity: 'error',
+    });
+  }
+  const gates = Array.isArray(config.gates) ? config.gates : [];
+  if (sources.length > 1) {
+    validateGateSources(sources, issues, lenient);
+    // Overrides may leave the command to a base; the merged gate needs one
+    gates.forEach((gate, index) => {
+      if (
+        isObject(gate) &&
+        nonEmptyString.check(gate.name) &&
+        gate.command === undefined
+      ) {
+        issues.push({
+          path: `gates[${index}].command`,
+          message: `Gate '${gate.name as string}' is missing required field: command.`,
+          severity: 'error',
+        });
+      }
+    });
+  } else {
+    gates.forEach((gate, index) => {
+      validateGateEntry(gate, `gates[${index}]`, issues, lenient);
+    });
+  }
+  validateGateReferences(gates, issues, lenient);
+
+  if (isObject(config.loopGuard)) {
+    const guard = config.loopGuard;
+    checkFields(
+      guard,
+      LOOP_GUARD_FIELDS,
+      'loopGuard',
+      (field, expected) => `'loopGuard.${field}' must be ${expected}.`,
+      issues,
+    );
+    if (guard.maxConsecutiveBlocks === undefined) {
+      issues.push({
+        path: 'loopGuard.maxConsecutiveBlocks',
+        message: "'loopGuard' is missing required field: maxConsecutiveBlocks.",
+        severity: 'error',
+      });
+    }
+    if (guard.action === 'notify' && guard.notifyCommand === undefined) {
+      issues.push({
+        path: 'loopGuard.notifyCommand',
+        message: "'loopGuard.action' 'notify' needs a notifyCommand.",
+        severity: 'error',
+      });
+    }
+  }
+
+  if (isObject(config.hookOutput)) {
+    checkFields(
+      config.hookOutput,
+      HOOK_OUTPUT_FIELDS,
+      'hookOutput',
+      (field, expected) => `'hookOutput.${field}' must be ${expected}.`,
+      issues,
+    );
+    const stopOn = config.hookOutput.stopOn;
+    if (Array.isArray(stopOn)) {
+      const gateNames = new Set(
+        gates.map((gate) => (isObject(gate) ? gate.name : undefined)),
+      );
+      stopOn.forEach((name, index) => {
+        if (typeof name === 'string' && !gateNames.has(name)) {
+          issues.push({
+            path: `hookOutput.stopOn[${index}]`,
+            message: `'hookOutput.stopOn' references unknown gate '${name}'.`,
+            severity: 'error',
+          });
+        }
+      });
+    }
+  }
+
+  if (isObject(config.profiles)) {
+    const gateNames = new Set(
+      gates
+        .filter((gate) => isObject(gate) && typeof gate.name === 'string')
+        .map((gate) => (gate as Gate).name),
+    );
+    validateProfiles(config.profiles, gateNames, issues);
+  }
+
+  return issues;
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const location = issue.path.length > 0 ? issue.path : '(root)';
+  return `${issue.severity}: ${location}: ${issue.message}`;
+}
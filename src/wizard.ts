@@ -0,0 +1,137 @@
+import readline from 'node:readline';
+import type { Gate } from './types.js';
+import type { HookScope, InitChoices } from './init.js';
+
+interface WizardIO {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+}
+
+const HOOK_SCOPE_CHOICES: Array<[HookScope | null, string]> = [
+  ['local', '.claude/settings.local.json (just you, this project)'],
+  ['project', '.claude/settings.json (shared with the team)'],
+  ['user', '~/.claude/settings.json (all your projects)'],
+  [null, "Don't install a hook"],
+];
+
+const HELP = [
+  'Commands:',
+  '  <n>            toggle gate n on or off',
+  '  o <n> <order>  set the order of gate n',
+  '  b <n>          toggle blocking for gate n',
+  '  a              add a custom command',
+  '  Enter          accept and continue',
+].join('\n');
+
+function formatGates(gates: Gate[]): string {
+  if (gates.length === 0) {
+    return 'No gates detected.';
+  }
+  const width = Math.max(...gates.map((gate) => gate.name.length));
+  return gates
+    .map((gate, index) => {
+      const enabled = gate.enabled === false ? '[ ]' : '[x]';
+      const blocking = gate.blocking === false ? 'non-blocking' : 'blocking';
+      return `${String(index + 1).padStart(2)}. ${enabled} ${gate.name.padEnd(width)}  order ${String(gate.order ?? 100).padEnd(4)} ${blocking.padEnd(12)}  ${gate.command}`;
+    })
+    .join('\n');
+}
+
+// Orders are edited freely, so keep the list showing them in run order
+function sortGates(gates: Gate[]): Gate[] {
+  return gates
+    .map((gate, index) => ({ gate, index }))
+    .sort(
+      (a, b) =>
+        (a.gate.order ?? 100) - (b.gate.order ?? 100) || a.index - b.index,
+    )
+    .map((entry) => entry.gate);
+}
+
+// Walks through the detected gates and the hook location. Lines come from an
+// async iterator so input piped ahead of the prompts isn't lost.
+export async function runInitWizard(
+  choices: InitChoices,
+  io: WizardIO = { input: process.stdin, output: process.stdout },
+): Promise<InitChoices> {
+  const rl = readline.createInterface({ input: io.input, terminal: false });
+  const lines = rl[Symbol.asyncIterator]();
+  const write = (text: string) => io.output.write(`${text}\n`);
+  // End of input accepts the remaining defaults
+  const ask = async (prompt: string): Promise<string | null> => {
+    io.output.write(prompt);
+    const next = await lines.next();
+    return next.done ? null : (next.value as string).trim();
+  };
+
+  try {
+    let gates = choices.config.gates.map((gate) => ({ ...gate }));
+    write(HELP);
+    for (;;) {
+      write('');
+      write(formatGates(gates));
+      const answer = await ask('> ');
+      if (answer === null || answer === '') {
+        break;
+      }
+
+      const [command = '', ...args] = answer.split(/\s+/);
+      const target =
+        gates[Number(/^\d+$/.test(command) ? command : args[0]) - 1];
+      if (/^\d+$/.test(command) && target) {
+        if (target.enabled === false) {
+          delete target.enabled;
+        } else {
+          target.enabled = false;
+        }
+      } else if (command === 'b' && target) {
+        if (target.blocking === false) {
+          delete target.blocking;
+        } else {
+          target.blocking = false;
+        }
+      } else if (command === 'o' && target && /^-?\d+$/.test(args[1] ?? '')) {
+        target.order = Number(args[1]);
+        gates = sortGates(gates);
+      } else if (command === 'a') {
+        const name = await ask('Name: ');
+        const shell = name ? await ask('Command: ') : null;
+        if (!name || !shell) {
+          continue;
+        }
+        if (gates.some((gate) => gate.name === name)) {
+          write(`A gate named '${name}' already exists.`);
+          continue;
+        }
+        const order = await ask('Order [100]: ');
+        gates = sortGates([
+          ...gates,
+          {
+            name,
+            command: shell,
+            order: order && /^-?\d+$/.test(order) ? Number(order) : 100,
+          },
+        ]);
+      } else {
+        write(HELP);
+      }
+    }
+
+    write('');
+    write('Install the Claude Code hook in:');
+    HOOK_SCOPE_CHOICES.forEach(([, label], index) => {
+      write(`  ${index + 1}. ${label}`);
+    });
+    const current = HOOK_SCOPE_CHOICES.findIndex(
+      ([scope]) => scope === choices.hookScope,
+    );
+    const answer = await ask(`Choice [${current + 1}]: `);
+    const picked = HOOK_SCOPE_CHOICES[Number(answer) - 1];
+    return {
+      config: { ...choices.config, gates },
+      hookScope: picked ? picked[0] : choices.hookScope,
+    };
+  } finally {
+    rl.close();
+  }
+}
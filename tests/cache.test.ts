@@ -0,0 +1,129 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { clearCache, computeCacheKey } from '../src/cache.js';
+import { runGates } from '../src/runner.js';
+import type { Gate } from '../src/types.js';
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-cache-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('gate cache', () => {
+  it('changes the key when an input file or env var changes', async () => {
+    await withTempDir(async (dir) => {
+      await fs.mkdir(path.join(dir, 'src'));
+      await fs.writeFile(path.join(dir, 'src', 'a.ts'), 'one');
+      const gate: Gate = {
+        name: 'test',
+        command: 'npm test',
+        inputs: ['src/**/*.ts'],
+        inputEnv: ['RALPH_GATE_CACHE_TEST'],
+      };
+
+      const first = await computeCacheKey(gate, dir);
+      expect(await computeCacheKey(gate, dir)).toBe(first);
+
+      await fs.writeFile(path.join(dir, 'src', 'a.ts'), 'two');
+      const second = await computeCacheKey(gate, dir);
+      expect(second).not.toBe(first);
+
+      process.env.RALPH_GATE_CACHE_TEST = 'set';
+      try {
+        expect(await computeCacheKey(gate, dir)).not.toBe(second);
+      } finally {
+        delete process.env.RALPH_GATE_CACHE_TEST;
+      }
+    });
+  });
+
+  it('reuses a passing result until inputs change', async () => {
+    await withTempDir(async (dir) => {
+      const cacheDir = path.join(dir, '.ralph-gate', 'cache');
+      await fs.writeFile(path.join(dir, 'input.txt'), 'one');
+      const gates: Gate[] = [
+        {
+          name: 'echo',
+          command: `${process.execPath} -e "console.log('ran')"`,
+          inputs: ['input.txt'],
+        },
+      ];
+
+      const first = await runGates(gates, { cwd: dir, cacheDir });
+      expect(first.results[0]?.cached).toBeUndefined();
+
+      const second = await runGates(gates, { cwd: dir, cacheDir });
+      expect(second.results[0]?.cached).toBe(true);
+      expect(second.results[0]?.stdout).toContain('ran');
+      expect(second.cached).toEqual(['echo']);
+
+      await fs.writeFile(path.join(dir, 'input.txt'), 'two');
+      const third = await runGates(gates, { cwd: dir, cacheDir });
+      expect(third.results[0]?.cached).toBeUndefined();
+
+      expect(await clearCache(cacheDir)).toBe(2);
+      const fourth = await runGates(gates, { cwd: dir, cacheDir });
+      expect(fourth.results[0]?.cached).toBeUndefined();
+    });
+  });
+
+  it('does not cache failing results', async () => {
+    await withTempDir(async (dir) => {
+      const cacheDir = path.join(dir, 'cache');
+      const gates: Gate[] = [
+        {
+          name: 'fail',
+          command: `${process.execPath} -e "process.exit(1)"`,
+          inputs: ['missing/**'],
+        },
+      ];
+
+      await runGates(gates, { cwd: dir, cacheDir });
+      const second = await runGates(gates, { cwd: dir, cacheDir });
+      expect(second.results[0]?.cached).toBeUndefined();
+      expect(second.passed).toBe(false);
+    });
+  });
+
+  it('does not cache flaky passes or replay their retries', async () => {
+    await withTempDir(async (dir) => {
+      const cacheDir = path.join(dir, 'cache');
+      const script = path.join(dir, 'flaky.cjs');
+      await fs.writeFile(
+        script,
+        [
+          "const fs = require('fs');",
+          "const seen = fs.existsSync('count') ? Number(fs.readFileSync('count', 'utf8')) : 0;",
+          "fs.writeFileSync('count', String(seen + 1));",
+          'process.exit(seen === 0 ? 1 : 0);',
+        ].join('\n'),
+      );
+      const gates: Gate[] = [
+        {
+          name: 'flaky',
+          command: `${process.execPath} ${script}`,
+          inputs: ['flaky.cjs'],
+          retries: 1,
+        },
+      ];
+
+      const first = await runGates(gates, { cwd: dir, cacheDir });
+      expect(first.flaky).toEqual(['flaky']);
+
+      const second = await runGates(gates, { cwd: dir, cacheDir });
+      expect(second.results[0]?.cached).toBeUndefined();
+      expect(second.flaky).toEqual([]);
+
+      const third = await runGates(gates, { cwd: dir, cacheDir });
+      expect(third.results[0]?.cached).toBe(true);
+      expect(third.results[0]?.attempts).toBeUndefined();
+      expect(third.flaky).toEqual([]);
+    });
+  });
+});
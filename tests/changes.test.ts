@@ -0,0 +1,72 @@
+import { promises as fs } from 'node:fs';
+import { execSync } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { getChangedFiles } from '../src/changes.js';
+import { createPathMatcher } from '../src/glob.js';
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-changes-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function git(dir: string, command: string): void {
+  execSync(`git ${command}`, { cwd: dir, stdio: 'ignore' });
+}
+
+describe('createPathMatcher', () => {
+  it('matches globs, directories, brace groups and negations', () => {
+    const matches = createPathMatcher([
+      'src/**/*.{ts,tsx}',
+      'docs',
+      '!src/**/*.test.ts',
+    ]);
+
+    expect(matches('src/cli.ts')).toBe(true);
+    expect(matches('src/ui/button.tsx')).toBe(true);
+    expect(matches('docs/guide/intro.md')).toBe(true);
+    expect(matches('src/cli.test.ts')).toBe(false);
+    expect(matches('README.md')).toBe(false);
+  });
+});
+
+describe('getChangedFiles', () => {
+  it('returns null outside a git repository', async () => {
+    await withTempDir(async (dir) => {
+      expect(await getChangedFiles(dir)).toBeNull();
+    });
+  });
+
+  it('lists staged, unstaged and untracked files', async () => {
+    await withTempDir(async (dir) => {
+      git(dir, 'init');
+      git(dir, 'config user.email test@example.com');
+      git(dir, 'config user.name test');
+      await fs.writeFile(path.join(dir, 'committed.txt'), 'a');
+      await fs.writeFile(path.join(dir, 'staged.txt'), 'a');
+      git(dir, 'add .');
+      git(dir, 'commit -m init');
+
+      await fs.writeFile(path.join(dir, 'committed.txt'), 'b');
+      await fs.writeFile(path.join(dir, 'staged.txt'), 'b');
+      git(dir, 'add staged.txt');
+      await fs.writeFile(path.join(dir, 'untracked.txt'), 'c');
+
+      expect(await getChangedFiles(dir)).toEqual([
+        'committed.txt',
+        'staged.txt',
+        'untracked.txt',
+      ]);
+      expect(await getChangedFiles(dir, 'HEAD')).toEqual([
+        'committed.txt',
+        'staged.txt',
+        'untracked.txt',
+      ]);
+    });
+  });
+});
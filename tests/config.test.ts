@@ -0,0 +1,390 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { applyProfile, loadConfig, readConfigSource } from '../src/config.js';
+import { validateConfig } from '../src/validate.js';
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-config-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function withConfig<T>(
+  config: unknown,
+  fn: (dir: string) => Promise<T>,
+): Promise<T> {
+  return withTempDir(async (dir) => {
+    await fs.writeFile(
+      path.join(dir, 'gate.config.json'),
+      JSON.stringify(config, null, 2),
+    );
+    return fn(dir);
+  });
+}
+
+describe('loadConfig', () => {
+  it('rejects dependencies on unknown gates', async () => {
+    await withConfig(
+      {
+        gates: [{ name: 'e2e', command: 'true', dependsOn: ['bild'] }],
+      },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.config).toBeNull();
+        expect(result.error).toContain("depends on unknown gate 'bild'");
+      },
+    );
+  });
+
+  it('loads configs with unknown fields but counts further errors', async () => {
+    await withConfig(
+      { gates: [{ name: 'lint', command: 'true', blockng: false }] },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.config?.gates).toHaveLength(1);
+      },
+    );
+    await withConfig(
+      {
+        gates: [
+          { name: 'lint', command: '' },
+          { name: 'test', command: 'true', timeoutMs: -1 },
+        ],
+      },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.error).toBe(
+          "Invalid config: Gate 'lint' is missing required field: command. (1 more; run 'ralph-gate validate' to list them)",
+        );
+      },
+    );
+  });
+
+  it('rejects dependency cycles', async () => {
+    await withConfig(
+      {
+        gates: [
+          { name: 'a', command: 'true', dependsOn: ['b'] },
+          { name: 'b', command: 'true', dependsOn: ['a'] },
+        ],
+      },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.error).toContain(
+          'Dependency cycle detected: a -> b -> a',
+        );
+      },
+    );
+  });
+
+  it('keeps concurrency and dependencies on the loaded config', async () => {
+    await withConfig(
+      {
+        concurrency: 4,
+        gates: [
+          { name: 'build', command: 'true' },
+          { name: 'e2e', command: 'true', dependsOn: ['build'] },
+        ],
+      },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.error).toBeUndefined();
+        expect(result.config?.concurrency).toBe(4);
+        expect(result.config?.gates[1]?.dependsOn).toEqual(['build']);
+      },
+    );
+  });
+
+  it('resolves gate cwd against the config file location', async () => {
+    await withConfig(
+      { gates: [{ name: 'api', command: 'true', cwd: 'packages/api' }] },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.config?.gates[0]?.cwd).toBe(
+          path.join(dir, 'packages', 'api'),
+        );
+      },
+    );
+  });
+
+  it('normalizes fields it always accepted instead of failing the run', async () => {
+    const config = {
+      gates: [
+        { name: 'lint', command: 'true', order: '10', description: null },
+        { name: 'lint', command: 'false' },
+      ],
+    };
+    await withConfig(config, async (dir) => {
+      const result = await loadConfig(dir);
+      expect(result.error).toBeUndefined();
+      expect(result.config?.gates.map((gate) => gate.order)).toEqual([
+        100, 100,
+      ]);
+      expect(result.config?.gates[0]?.description).toBeUndefined();
+
+      expect(
+        validateConfig(config).map((issue) => [issue.severity, issue.path]),
+      ).toEqual([
+        ['error', 'gates[0].order'],
+        ['error', 'gates[0].description'],
+        ['error', 'gates[1].name'],
+      ]);
+    });
+  });
+
+  it('rejects unknown env modes', async () => {
+    await withConfig(
+      { gates: [{ name: 'bad', command: 'true', envMode: 'overlay' }] },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.error).toContain('invalid envMode');
+      },
+    );
+  });
+
+  it('merges gates from an extended file by name', async () => {
+    await withConfig(
+      {
+        extends: './shared/base.json',
+        failFast: false,
+        gates: [
+          { name: 'test', command: 'npm run test:ci' },
+          { name: 'audit', enabled: false },
+          { name: 'e2e', command: 'npm run e2e', order: 50 },
+        ],
+      },
+      async (dir) => {
+        await fs.mkdir(path.join(dir, 'shared'));
+        await fs.writeFile(
+          path.join(dir, 'shared', 'base.json'),
+          JSON.stringify({
+            timeoutMs: 60000,
+            gates: [
+              { name: 'lint', command: 'npm run lint', order: 10, cwd: 'app' },
+              { name: 'test', command: 'npm test', order: 30 },
+              { name: 'audit', command: 'npm audit', order: 40 },
+            ],
+          }),
+        );
+
+        const result = await loadConfig(dir);
+
+        expect(result.error).toBeUndefined();
+        expect(result.config?.failFast).toBe(false);
+        expect(result.config?.timeoutMs).toBe(60000);
+        expect(
+          result.config?.gates.map((gate) => [gate.name, gate.command]),
+        ).toEqual([
+          ['lint', 'npm run lint'],
+          ['test', 'npm run test:ci'],
+          ['e2e', 'npm run e2e'],
+        ]);
+        expect(result.config?.gates[0]?.cwd).toBe(
+          path.join(dir, 'shared', 'app'),
+        );
+      },
+    );
+  });
+
+  it('extends a config published as an npm package', async () => {
+    await withConfig({ extends: '@acme/gates', gates: [] }, async (dir) => {
+      const pkgDir = path.join(dir, 'node_modules', '@acme', 'gates');
+      await fs.mkdir(pkgDir, { recursive: true });
+      await fs.writeFile(
+        path.join(pkgDir, 'package.json'),
+        JSON.stringify({ name: '@acme/gates', main: 'gate.config.json' }),
+      );
+      await fs.writeFile(
+        path.join(pkgDir, 'gate.config.json'),
+        JSON.stringify({ gates: [{ name: 'lint', command: 'npm run lint' }] }),
+      );
+
+      const result = await loadConfig(dir);
+
+      expect(result.error).toBeUndefined();
+      expect(result.config?.gates.map((gate) => gate.name)).toEqual(['lint']);
+    });
+  });
+
+  it('reports missing and circular bases', async () => {
+    await withConfig({ extends: './missing.json', gates: [] }, async (dir) => {
+      const result = await loadConfig(dir);
+      expect(result.error).toContain(
+        "cannot find base config './missing.json'",
+      );
+    });
+
+    await withConfig({ extends: './a.json', gates: [] }, async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'a.json'),
+        JSON.stringify({ extends: './b.json', gates: [] }),
+      );
+      await fs.writeFile(
+        path.join(dir, 'b.json'),
+        JSON.stringify({ extends: './a.json', gates: [] }),
+      );
+      const result = await loadConfig(dir);
+      expect(result.error).toContain(
+        'circular extends: gate.config.json -> a.json -> b.json -> a.json',
+      );
+    });
+  });
+
+  it('validates each file of an extends chain against its own gates', async () => {
+    await withConfig(
+      {
+        extends: './shared/base.json',
+        gates: [
+          { name: 'a', command: 'true', blockng: false },
+          { name: 'c', command: 'true' },
+          { name: 'c', command: 'false' },
+          { name: 'lint', blocking: false },
+          { name: 'e2e', dependsOn: ['bild'] },
+        ],
+      },
+      async (dir) => {
+        await fs.mkdir(path.join(dir, 'shared'));
+        await fs.writeFile(
+          path.join(dir, 'shared', 'base.json'),
+          JSON.stringify({
+            gates: [
+              { name: 'lint', command: 'npm run lint' },
+              { name: 'test', command: 'npm test', timeoutMs: 0 },
+            ],
+          }),
+        );
+
+        const source = await readConfigSource(dir);
+        const issues = validateConfig(source.data, source.gateSources);
+
+        expect(issues.map((issue) => [issue.path, issue.message])).toEqual([
+          [
+            'gate.config.json:gates[0].blockng',
+            "Unknown field 'blockng'. Did you mean 'blocking'?",
+          ],
+          [
+            'gate.config.json:gates[2].name',
+            "Duplicate gate name 'c' (also used by gate.config.json:gates[1]).",
+          ],
+          [
+            path.join('shared', 'base.json') + ':gates[1].timeoutMs',
+            "Gate 'test' has invalid timeoutMs: expected a positive number.",
+          ],
+          [
+            'gates[4].command',
+            "Gate 'e2e' is missing required field: command.",
+          ],
+          [
+            'gates[4].dependsOn[0]',
+            "Gate 'e2e' depends on unknown gate 'bild'.",
+          ],
+        ]);
+      },
+    );
+  });
+
+  it('loads an .mjs config exporting a function of the run context', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'gate.config.mjs'),
+        [
+          'export default async ({ cwd, ci }) => ({',
+          '  gates: [{ name: ci ? "ci-test" : "test", command: `echo ${cwd}` }],',
+          '});',
+        ].join('\n'),
+      );
+
+      const result = await loadConfig(dir);
+
+      expect(result.error).toBeUndefined();
+      expect(result.configPath).toBe(path.join(dir, 'gate.config.mjs'));
+      const gate = result.config?.gates[0];
+      expect(gate?.name).toBe(process.env.CI ? 'ci-test' : 'test');
+      expect(gate?.command).toBe(`echo ${dir}`);
+    });
+  });
+
+  it('loads a TypeScript config and still validates its gates', async () => {
+    await withTempDir(async (dir) => {
+      await fs.mkdir(path.join(dir, 'node_modules'));
+      await fs.symlink(
+        path.resolve('node_modules', 'typescript'),
+        path.join(dir, 'node_modules', 'typescript'),
+      );
+      await fs.writeFile(
+        path.join(dir, 'gate.config.ts'),
+        [
+          "const name: string = 'lint';",
+          'export default { gates: [{ name }] };',
+        ].join('\n'),
+      );
+
+      const result = await loadConfig(dir);
+
+      expect(result.config).toBeNull();
+      expect(result.error).toContain(
+        "Gate 'lint' is missing required field: command.",
+      );
+    });
+  });
+
+  it('narrows gates and settings to the selected profile', async () => {
+    await withConfig(
+      {
+        failFast: true,
+        gates: [
+          { name: 'lint', command: 'npm run lint', tags: ['static'] },
+          { name: 'typecheck', command: 'tsc', tags: ['static'] },
+          { name: 'test', command: 'npm test' },
+          { name: 'e2e', command: 'npm run e2e' },
+        ],
+        profiles: {
+          quick: { tags: ['static'], gates: ['test'], timeoutMs: 30000 },
+          full: { failFast: false },
+        },
+      },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        const config = result.config!;
+
+        const quick = applyProfile(config, 'quick');
+        expect(quick.config?.gates.map((gate) => gate.name)).toEqual([
+          'lint',
+          'typecheck',
+          'test',
+        ]);
+        expect(quick.config?.timeoutMs).toBe(30000);
+
+        const full = applyProfile(config, 'full');
+        expect(full.config?.gates).toHaveLength(4);
+        expect(full.config?.failFast).toBe(false);
+
+        const missing = applyProfile(config, 'nightly');
+        expect(missing.config).toBeNull();
+        expect(missing.error).toBe(
+          "Unknown profile 'nightly'. Available: quick, full.",
+        );
+      },
+    );
+  });
+
+  it('rejects profiles that reference unknown gates', async () => {
+    await withConfig(
+      {
+        gates: [{ name: 'lint', command: 'npm run lint' }],
+        profiles: { quick: { gates: ['lnt'] } },
+      },
+      async (dir) => {
+        const result = await loadConfig(dir);
+        expect(result.error).toContain(
+          "Profile 'quick' references unknown gate 'lnt'.",
+        );
+      },
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { detectParser, parseDiagnostics } from '../src/diagnostics.js';
+import type { Gate } from '../src/types.js';
+
+function gate(command: string, overrides: Partial<Gate> = {}): Gate {
+  return { name: 'check', command, ...overrides };
+}
+
+describe('detectParser', () => {
+  it('picks the parser from the command', () => {
+    expect(detectParser('npx tsc --noEmit')).toBe('tsc');
+    expect(detectParser('npx vitest run')).toBe('vitest');
+    expect(detectParser('uv run pytest -q')).toBe('pytest');
+    expect(detectParser('npm test')).toBe('none');
+  });
+});
+
+describe('parseDiagnostics', () => {
+  it('parses plain and pretty tsc output', () => {
+    const output = [
+      "src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "\u001b[96msrc/b.ts\u001b[0m:3:1 - \u001b[91merror\u001b[0m\u001b[90m TS2304: \u001b[0mCannot find name 'foo'.",
+      "src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+    ].join('\n');
+
+    expect(parseDiagnostics(gate('tsc --noEmit'), output, '/repo')).toEqual([
+      {
+        file: 'src/a.ts',
+        line: 12,
+        column: 5,
+        message: "Type 'string' is not assignable to type 'number'.",
+        rule: 'TS2322',
+      },
+      {
+        file: 'src/b.ts',
+        line: 3,
+        column: 1,
+        message: "Cannot find name 'foo'.",
+        rule: 'TS2304',
+      },
+    ]);
+  });
+
+  it('parses eslint stylish output relative to the root', () => {
+    const output = [
+      '/repo/packages/api/src/index.js',
+      "  1:10  error  'x' is defined but never used  no-unused-vars",
+      '  4:1   error  Parsing error: Unexpected token',
+      '',
+      '✖ 2 problems (2 errors, 0 warnings)',
+    ].join('\n');
+
+    expect(
+      parseDiagnostics(
+        gate('eslint .', { cwd: 'packages/api' }),
+        output,
+        '/repo',
+      ),
+    ).toEqual([
+      {
+        file: 'packages/api/src/index.js',
+        line: 1,
+        column: 10,
+        message: "'x' is defined but never used",
+        rule: 'no-unused-vars',
+      },
+      {
+        file: 'packages/api/src/index.js',
+        line: 4,
+        column: 1,
+        message: 'Parsing error: Unexpected token',
+      },
+    ]);
+  });
+
+  it('parses failing vitest and jest tests', () => {
+    const vitest = [
+      ' FAIL  tests/sum.test.ts > sum > adds',
+      'AssertionError: expected 3 to be 4 // Object.is equality',
+      ' ❯ tests/sum.test.ts:5:15',
+    ].join('\n');
+    const jest = [
+      'FAIL src/sum.test.js',
+      '  ● sum › adds',
+      '',
+      '    expect(received).toBe(expected) // Object.is equality',
+      '',
+      '      at Object.toBe (src/sum.test.js:4:21)',
+    ].join('\n');
+
+    expect(parseDiagnostics(gate('vitest run'), vitest, '/repo')).toEqual([
+      {
+        file: 'tests/sum.test.ts',
+        line: 5,
+        column: 15,
+        message: 'sum > adds: expected 3 to be 4 // Object.is equality',
+        rule: 'AssertionError',
+      },
+    ]);
+    expect(parseDiagnostics(gate('jest'), jest, '/repo')).toEqual([
+      {
+        file: 'src/sum.test.js',
+        line: 4,
+        column: 21,
+        message:
+          'sum › adds: expect(received).toBe(expected) // Object.is equality',
+      },
+    ]);
+  });
+
+  it('parses pytest, ruff and mypy output', () => {
+    const pytest = [
+      'tests/test_sum.py:4: AssertionError',
+      '=========================== short test summary info ============================',
+      'FAILED tests/test_sum.py::test_add - assert 3 == 4',
+    ].join('\n');
+    const ruff = [
+      'app.py:1:8: F401 [*] `os` imported but unused',
+      'E402 Module level import not at top of file',
+      ' --> app.py:3:1',
+    ].join('\n');
+    const mypy =
+      'app.py:7: error: Incompatible return value type  [return-value]';
+
+    expect(parseDiagnostics(gate('pytest'), pytest, '/repo')).toEqual([
+      {
+        file: 'tests/test_sum.py',
+        line: 4,
+        message: 'test_add: assert 3 == 4',
+      },
+    ]);
+    expect(
+      parseDiagnostics(gate('ruff check .'), ruff, '/repo').map(
+        (diagnostic) => [diagnostic.line, diagnostic.rule],
+      ),
+    ).toEqual([
+      [1, 'F401'],
+      [3, 'E402'],
+    ]);
+    expect(parseDiagnostics(gate('mypy .'), mypy, '/repo')).toEqual([
+      {
+        file: 'app.py',
+        line: 7,
+        message: 'Incompatible return value type',
+        rule: 'return-value',
+      },
+    ]);
+  });
+
+  it('honours an explicit parser and opting out', () => {
+    const output = "src/a.ts(1,1): error TS1005: ';' expected.";
+    expect(
+      parseDiagnostics(gate('npm run typecheck', { parser: 'tsc' }), output),
+    ).toHaveLength(1);
+    expect(parseDiagnostics(gate('tsc', { parser: 'none' }), output)).toEqual(
+      [],
+    );
+  });
+});
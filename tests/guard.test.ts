@@ -0,0 +1,145 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { applyLoopGuard, readHookInput } from '../src/guard.js';
+import type { HookOutput, LoopGuard } from '../src/types.js';
+
+const blocked: HookOutput = {
+  decision: 'block',
+  reason: "Gate 'test' failed (exit 1):\nboom",
+};
+
+async function withStatePath<T>(
+  fn: (statePath: string) => Promise<T>,
+): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-guard-'));
+  try {
+    return await fn(path.join(dir, 'sessions.json'));
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('readHookInput', () => {
+  it('parses the payload piped on stdin', async () => {
+    const stream = new PassThrough();
+    stream.end('{"session_id":"abc","stop_hook_active":true}');
+
+    const input = await readHookInput(stream as unknown as NodeJS.ReadStream);
+
+    expect(input).toEqual({ session_id: 'abc', stop_hook_active: true });
+  });
+
+  it('gives up on a pipe that never closes', async () => {
+    const stream = new PassThrough();
+
+    const input = await readHookInput(
+      stream as unknown as NodeJS.ReadStream,
+      50,
+    );
+
+    expect(input).toBeNull();
+  });
+});
+
+describe('applyLoopGuard', () => {
+  const guard = (overrides: Partial<LoopGuard> = {}): LoopGuard => ({
+    maxConsecutiveBlocks: 2,
+    ...overrides,
+  });
+
+  it('allows the stop once a session passes the limit', async () => {
+    await withStatePath(async (statePath) => {
+      const run = (active: boolean) =>
+        applyLoopGuard(
+          blocked,
+          'test',
+          { session_id: 's1', stop_hook_active: active },
+          guard(),
+          statePath,
+        );
+
+      expect(await run(false)).toEqual(blocked);
+      expect(await run(true)).toEqual(blocked);
+      expect(await run(true)).toEqual({
+        systemMessage:
+          "ralph-gate: Stop allowed after 2 consecutive blocks: Gate 'test' failed (exit 1)",
+        warnings: [
+          "Stop allowed after 2 consecutive blocks: Gate 'test' failed (exit 1)",
+        ],
+      });
+      // The streak starts over after the agent is let go
+      expect(await run(true)).toEqual(blocked);
+    });
+  });
+
+  it('resets the streak when the agent stops on its own', async () => {
+    await withStatePath(async (statePath) => {
+      const input = (active: boolean) => ({
+        session_id: 's1',
+        stop_hook_active: active,
+      });
+      await applyLoopGuard(blocked, 'test', input(true), guard(), statePath);
+      await applyLoopGuard(blocked, 'test', input(true), guard(), statePath);
+
+      const output = await applyLoopGuard(
+        blocked,
+        'test',
+        input(false),
+        guard(),
+        statePath,
+      );
+
+      expect(output).toEqual(blocked);
+    });
+  });
+
+  it('escalates instead of allowing when configured', async () => {
+    await withStatePath(async (statePath) => {
+      const input = { session_id: 's1', stop_hook_active: true };
+      const escalate = guard({
+        maxConsecutiveBlocks: 1,
+        action: 'escalate',
+        message: 'Ask the user for help.',
+      });
+      await applyLoopGuard(blocked, 'test', input, escalate, statePath);
+
+      const output = await applyLoopGuard(
+        blocked,
+        'test',
+        input,
+        escalate,
+        statePath,
+      );
+
+      expect(output.decision).toBe('block');
+      expect(output.reason).toBe(`Ask the user for help.\n\n${blocked.reason}`);
+    });
+  });
+
+  it('runs the notify command with the streak in its environment', async () => {
+    await withStatePath(async (statePath) => {
+      const marker = path.join(path.dirname(statePath), 'notified');
+      const input = { session_id: 's1', stop_hook_active: true };
+      const notify = guard({
+        maxConsecutiveBlocks: 1,
+        action: 'notify',
+        notifyCommand: `echo "$RALPH_GATE_FAILURE $RALPH_GATE_CONSECUTIVE_BLOCKS" > "${marker}"`,
+      });
+      await applyLoopGuard(blocked, 'test', input, notify, statePath);
+
+      const output = await applyLoopGuard(
+        blocked,
+        'test',
+        input,
+        notify,
+        statePath,
+      );
+
+      expect(output.decision).toBeUndefined();
+      expect((await fs.readFile(marker, 'utf8')).trim()).toBe('test 2');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  appendHistory,
+  computeHistoryStats,
+  readHistory,
+} from '../src/history.js';
+import type { GateResult, GateRunSummary, HistoryEntry } from '../src/types.js';
+
+function result(overrides: Partial<GateResult>): GateResult {
+  return {
+    name: 'gate',
+    passed: true,
+    exitCode: 0,
+    stdout: 'lots of output',
+    stderr: '',
+    durationMs: 10,
+    skipped: false,
+    blocking: true,
+    timedOut: false,
+    timestamp: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function entry(
+  gates: Array<[string, boolean, number, Partial<HistoryEntry['gates'][0]>?]>,
+): HistoryEntry {
+  const failed = gates.find(([, passed]) => !passed);
+  return {
+    timestamp: new Date().toISOString(),
+    passed: !failed,
+    totalDurationMs: 0,
+    firstFailure: failed ? failed[0] : null,
+    gates: gates.map(([name, passed, durationMs, extra]) => ({
+      name,
+      passed,
+      skipped: false,
+      durationMs,
+      ...extra,
+    })),
+  };
+}
+
+describe('appendHistory', () => {
+  it('appends compact entries without gate output', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-history-'));
+    try {
+      const historyPath = path.join(dir, '.ralph-gate', 'history.jsonl');
+      const failure = result({ name: 'test', passed: false, exitCode: 1 });
+      const summary: GateRunSummary = {
+        passed: false,
+        timestamp: '2024-01-01T00:00:00.000Z',
+        totalDurationMs: 20,
+        results: [result({ name: 'lint' }), failure],
+        firstFailure: failure,
+        warnings: [],
+        cached: [],
+        flaky: [],
+      };
+
+      await appendHistory(summary, { historyPath, profile: 'quick' });
+      await fs.appendFile(historyPath, '{"truncated');
+      await appendHistory(
+        { ...summary, passed: true, firstFailure: null },
+        {
+          historyPath,
+        },
+      );
+
+      const entries = await readHistory(historyPath);
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toEqual({
+        timestamp: '2024-01-01T00:00:00.000Z',
+        passed: false,
+        totalDurationMs: 20,
+        firstFailure: 'test',
+        profile: 'quick',
+        gates: [
+          { name: 'lint', passed: true, skipped: false, durationMs: 10 },
+          { name: 'test', passed: false, skipped: false, durationMs: 10 },
+        ],
+      });
+      expect(
+        await fs.readFile(path.join(dir, '.ralph-gate', '.gitignore'), 'utf8'),
+      ).toBe('*\n');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('computeHistoryStats', () => {
+  it('computes pass rates, percentiles, flakiness and first failures', () => {
+    const stats = computeHistoryStats([
+      entry([
+        ['lint', true, 100],
+        ['test', false, 1000],
+      ]),
+      entry([
+        ['lint', true, 200],
+        ['test', true, 2000, { flaky: true }],
+      ]),
+      entry([
+        ['lint', true, 300],
+        ['test', true, 0, { cached: true }],
+      ]),
+      entry([
+        ['lint', false, 400],
+        ['test', true, 0, { skipped: true }],
+      ]),
+    ]);
+
+    expect(stats.runs).toBe(4);
+    expect(stats.passRate).toBe(0.5);
+    expect(stats.gates).toEqual([
+      {
+        name: 'lint',
+        runs: 4,
+        skipped: 0,
+        passRate: 0.75,
+        p50DurationMs: 200,
+        p95DurationMs: 400,
+        flaky: 0,
+        firstFailures: 1,
+      },
+      {
+        name: 'test',
+        runs: 3,
+        skipped: 1,
+        passRate: 2 / 3,
+        p50DurationMs: 1000,
+        p95DurationMs: 2000,
+        flaky: 1,
+        firstFailures: 1,
+      },
+    ]);
+    expect(stats.mostFrequentFirstFailure).toEqual({ name: 'test', count: 1 });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import {
+  gateRunsOn,
+  generateHookResponse,
+  getEditedFiles,
+} from '../src/hook.js';
+import type { GateResult, GateRunSummary } from '../src/types.js';
+
+function result(overrides: Partial<GateResult>): GateResult {
+  return {
+    name: 'gate',
+    passed: true,
+    exitCode: 0,
+    stdout: '',
+    stderr: '',
+    durationMs: 10,
+    skipped: false,
+    blocking: true,
+    timedOut: false,
+    timestamp: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function summary(overrides: Partial<GateRunSummary>): GateRunSummary {
+  return {
+    passed: true,
+    timestamp: new Date().toISOString(),
+    totalDurationMs: 10,
+    results: [],
+    firstFailure: null,
+    warnings: [],
+    cached: [],
+    flaky: [],
+    ...overrides,
+  };
+}
+
+describe('generateHookResponse', () => {
+  it('allows completion when everything passes', () => {
+    expect(generateHookResponse(summary({}))).toEqual({});
+  });
+
+  it('says explicitly when the failing gate timed out', () => {
+    const failure = result({
+      name: 'e2e',
+      passed: false,
+      exitCode: null,
+      timedOut: true,
+      durationMs: 3000,
+    });
+    const response = generateHookResponse(
+      summary({ passed: false, results: [failure], firstFailure: failure }),
+    );
+
+    expect(response.decision).toBe('block');
+    expect(response.reason).toContain("Gate 'e2e' timed out after 3000ms");
+  });
+
+  it('prefers a deduplicated diagnostics listing over raw output', () => {
+    const diagnostic = {
+      file: 'src/a.ts',
+      line: 1,
+      column: 2,
+      message: 'Boom.',
+      rule: 'TS1',
+    };
+    const failure = result({
+      name: 'typecheck',
+      passed: false,
+      exitCode: 2,
+      stdout: 'raw compiler output',
+      diagnostics: [diagnostic, diagnostic],
+    });
+    const response = generateHookResponse(
+      summary({ passed: false, results: [failure], firstFailure: failure }),
+    );
+
+    expect(response.reason).toBe(
+      "Gate 'typecheck' failed (exit 2):\nsrc/a.ts:1:2: Boom. (TS1)",
+    );
+  });
+
+  it('surfaces flaky gates as warnings on a passing run', () => {
+    const response = generateHookResponse(summary({ flaky: ['e2e'] }));
+
+    expect(response.decision).toBeUndefined();
+    expect(response.warnings).toEqual(['e2e (flaky)']);
+    expect(response.systemMessage).toBe(
+      'ralph-gate: Passed only after a retry: e2e',
+    );
+
+    const mixed = generateHookResponse(
+      summary({ warnings: ['audit'], flaky: ['e2e'] }),
+    );
+    expect(mixed.systemMessage).toBe(
+      'ralph-gate: Non-blocking gates reported problems: audit. Passed only after a retry: e2e',
+    );
+  });
+
+  it('leaves out the system message and output when configured to', () => {
+    const response = generateHookResponse(
+      summary({ warnings: ['audit'] }),
+      'Stop',
+      { systemMessage: false, suppressOutput: true },
+    );
+
+    expect(response).toEqual({ suppressOutput: true, warnings: ['audit'] });
+  });
+
+  it('stops Claude when a stop-on gate fails, even if it is non-blocking', () => {
+    const secrets = result({
+      name: 'secrets',
+      passed: false,
+      exitCode: 1,
+      blocking: false,
+      stdout: 'AWS key in src/config.ts',
+    });
+    const response = generateHookResponse(
+      summary({ results: [secrets], warnings: ['secrets'] }),
+      'Stop',
+      { stopOn: ['secrets'] },
+    );
+
+    expect(response.continue).toBe(false);
+    expect(response.stopReason).toBe(
+      "ralph-gate stopped Claude: Gate 'secrets' failed (exit 1)",
+    );
+    expect(response.decision).toBe('block');
+    expect(response.reason).toContain('AWS key in src/config.ts');
+  });
+
+  it('reports non-blocking problems as additional context after a tool call', () => {
+    const response = generateHookResponse(
+      summary({ warnings: ['lint-file'] }),
+      'PostToolUse',
+    );
+
+    expect(response.decision).toBeUndefined();
+    expect(response.hookSpecificOutput).toEqual({
+      hookEventName: 'PostToolUse',
+      additionalContext: 'Non-blocking gates reported problems: lint-file',
+    });
+  });
+});
+
+describe('hook events', () => {
+  it('runs gates without events on Stop only', () => {
+    const gate = { name: 'test', command: 'npm test' };
+    const onEdit = { ...gate, events: ['PostToolUse' as const] };
+
+    expect(gateRunsOn(gate, 'Stop')).toBe(true);
+    expect(gateRunsOn(gate, 'SubagentStop')).toBe(false);
+    expect(gateRunsOn(gate, 'PostToolUse')).toBe(false);
+    expect(gateRunsOn(onEdit, 'PostToolUse')).toBe(true);
+    expect(gateRunsOn(onEdit, 'Stop')).toBe(false);
+  });
+
+  it('reads the edited file from the tool input', () => {
+    expect(
+      getEditedFiles(
+        { tool_name: 'Edit', tool_input: { file_path: '/repo/src/a.ts' } },
+        '/repo',
+      ),
+    ).toEqual(['src/a.ts']);
+    expect(
+      getEditedFiles({ tool_name: 'Bash', tool_input: { command: 'ls' } }),
+    ).toEqual([]);
+  });
+});
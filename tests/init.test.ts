@@ -6,6 +6,7 @@ import { describe, expect, it } from 'vitest';
 import {
   DEFAULT_CONFIG_FILENAME,
   generateGateConfig,
+  getConfigHookEvents,
   initConfigFile,
 } from '../src/init.js';
 
@@ -54,6 +55,10 @@ describe('ralph-gate init', () => {
         'npm run test',
         'npm run build',
       ]);
+      expect(config.profiles).toEqual({
+        quick: { gates: ['lint', 'typecheck'] },
+        full: {},
+      });
     });
   });
 
@@ -241,4 +246,475 @@ describe('ralph-gate init', () => {
       expect(gitignoreContent).toContain('*.json');
     });
   });
+
+  it('recognizes script name variants', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'package.json'),
+        JSON.stringify({
+          scripts: {
+            check: 'svelte-check',
+            'test:unit': 'vitest run',
+            'test:watch': 'vitest',
+            'test:e2e': 'playwright test',
+          },
+        }),
+      );
+
+      const { config } = await generateGateConfig(dir);
+
+      expect(
+        config.gates.map((gate) => [gate.name, gate.command, gate.description]),
+      ).toEqual([
+        [
+          'typecheck',
+          'npm run check',
+          "Inferred from the 'check' script in package.json.",
+        ],
+        [
+          'test',
+          'npm run test:unit',
+          "Inferred from the 'test:unit' script in package.json.",
+        ],
+        [
+          'e2e',
+          'npm run test:e2e',
+          "Inferred from the 'test:e2e' script in package.json.",
+        ],
+      ]);
+    });
+  });
+
+  it('invokes configured tools directly when no script runs them', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'package.json'),
+        JSON.stringify({
+          scripts: { test: 'echo "Error: no test specified" && exit 1' },
+        }),
+      );
+      await fs.writeFile(path.join(dir, 'pnpm-lock.yaml'), '');
+      await fs.writeFile(path.join(dir, 'eslint.config.js'), '');
+      await fs.writeFile(path.join(dir, '.prettierrc'), '{}');
+      await fs.writeFile(path.join(dir, 'vitest.config.ts'), '');
+
+      const { config } = await generateGateConfig(dir);
+
+      expect(
+        config.gates.map((gate) => [gate.name, gate.command, gate.description]),
+      ).toEqual([
+        [
+          'lint',
+          'pnpm exec eslint .',
+          'Inferred from eslint.config.js; no matching script in package.json.',
+        ],
+        [
+          'format',
+          'pnpm exec prettier --check .',
+          'Inferred from .prettierrc; no matching script in package.json.',
+        ],
+        [
+          'test',
+          'pnpm exec vitest run',
+          'Inferred from vitest.config.ts; no matching script in package.json.',
+        ],
+      ]);
+
+      // Biome covers formatting as well as linting
+      await fs.writeFile(path.join(dir, 'biome.json'), '{}');
+      const biome = await generateGateConfig(dir);
+      expect(biome.config.gates.map((gate) => gate.command)).toEqual([
+        'pnpm exec biome check .',
+        'pnpm exec vitest run',
+      ]);
+    });
+  });
+
+  it('generates per-package gates for npm workspaces', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'package.json'),
+        JSON.stringify({
+          name: 'monorepo',
+          private: true,
+          workspaces: ['packages/*'],
+          scripts: { lint: 'eslint .' },
+        }),
+      );
+      await fs.mkdir(path.join(dir, 'packages', 'api'), { recursive: true });
+      await fs.writeFile(
+        path.join(dir, 'packages', 'api', 'package.json'),
+        JSON.stringify({ name: '@acme/api', scripts: { test: 'vitest run' } }),
+      );
+      await fs.mkdir(path.join(dir, 'packages', 'docs'), { recursive: true });
+
+      const { config } = await generateGateConfig(dir);
+
+      expect(config.gates).toEqual([
+        {
+          name: 'lint',
+          order: 10,
+          command: 'npm run lint',
+          description: "Inferred from the 'lint' script in package.json.",
+        },
+        {
+          name: '@acme/api:test',
+          order: 30,
+          command: 'npm run test',
+          description: "Inferred from the 'test' script in package.json.",
+          cwd: 'packages/api',
+          workspace: '@acme/api',
+        },
+      ]);
+    });
+  });
+
+  it('reads pnpm-workspace.yaml package globs', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'package.json'),
+        JSON.stringify({ name: 'monorepo', private: true }),
+      );
+      await fs.writeFile(
+        path.join(dir, 'pnpm-workspace.yaml'),
+        "packages:\n  - 'apps/*'\n  - '!apps/legacy'\n",
+      );
+      for (const app of ['web', 'legacy']) {
+        await fs.mkdir(path.join(dir, 'apps', app), { recursive: true });
+        await fs.writeFile(
+          path.join(dir, 'apps', app, 'package.json'),
+          JSON.stringify({ name: app, scripts: { build: 'vite build' } }),
+        );
+      }
+
+      const { config } = await generateGateConfig(dir);
+
+      expect(config.gates.map((gate) => [gate.name, gate.command])).toEqual([
+        ['web:build', 'pnpm run build'],
+      ]);
+      expect(config.gates[0]?.cwd).toBe('apps/web');
+    });
+  });
+
+  it('generates Go gates, with golangci-lint only when configured', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(path.join(dir, 'go.mod'), 'module example.com/app\n');
+      await fs.writeFile(path.join(dir, '.golangci.yml'), 'linters: {}\n');
+
+      const { config, projectKind } = await generateGateConfig(dir);
+
+      expect(projectKind).toBe('go');
+      expect(config.gates.map((gate) => gate.command)).toEqual([
+        'golangci-lint run',
+        'go vet ./...',
+        'go test ./...',
+      ]);
+    });
+  });
+
+  it('uses bun when a bun lockfile is present', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'package.json'),
+        JSON.stringify({
+          scripts: { lint: 'eslint .', test: 'bun test' },
+          devDependencies: { typescript: '^5.0.0' },
+        }),
+      );
+      await fs.writeFile(path.join(dir, 'tsconfig.json'), '{}');
+      await fs.writeFile(path.join(dir, 'bun.lockb'), '');
+
+      const { config } = await generateGateConfig(dir);
+
+      expect(config.gates.map((gate) => gate.command)).toEqual([
+        'bun run lint',
+        'bunx tsc -p tsconfig.json --noEmit',
+        'bun run test',
+      ]);
+    });
+  });
+
+  it('reads Ruby tools from the Gemfile and Deno tasks from deno.jsonc', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'Gemfile'),
+        "source 'https://rubygems.org'\ngem 'rubocop', require: false\ngem \"rspec\"\n",
+      );
+      const ruby = await generateGateConfig(dir);
+      expect(ruby.config.gates.map((gate) => gate.command)).toEqual([
+        'bundle exec rubocop',
+        'bundle exec rspec',
+      ]);
+
+      await fs.rm(path.join(dir, 'Gemfile'));
+      await fs.writeFile(
+        path.join(dir, 'deno.jsonc'),
+        '{\n  // project tasks\n  "tasks": { "test": "deno test -A", },\n}\n',
+      );
+      const deno = await generateGateConfig(dir);
+      expect(deno.projectKind).toBe('deno');
+      expect(deno.config.gates.map((gate) => gate.command)).toEqual([
+        'deno fmt --check',
+        'deno lint',
+        'deno check .',
+        'deno task test',
+      ]);
+    });
+  });
+
+  it('merges the gates of every ecosystem at the root', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'package.json'),
+        JSON.stringify({ scripts: { lint: 'eslint .', test: 'vitest' } }),
+      );
+      await fs.writeFile(path.join(dir, 'Cargo.toml'), '[package]\n');
+      await fs.writeFile(path.join(dir, 'pom.xml'), '<project/>');
+      await fs.writeFile(path.join(dir, 'mvnw'), '');
+
+      const { config, projectKind, projectKinds } =
+        await generateGateConfig(dir);
+
+      expect(projectKind).toBe('node');
+      expect(projectKinds).toEqual(['node', 'rust', 'java']);
+      expect(config.gates.map((gate) => gate.name)).toEqual([
+        'node:lint',
+        'rust:format',
+        'rust:clippy',
+        'java:compile',
+        'node:test',
+        'rust:test',
+        'java:test',
+      ]);
+      expect(
+        config.gates.find((gate) => gate.name === 'java:test')?.command,
+      ).toBe('./mvnw -B test');
+      expect(config.profiles?.quick).toEqual({
+        gates: ['node:lint', 'rust:format', 'rust:clippy', 'java:compile'],
+      });
+    });
+  });
+
+  it('reads Python tools from pyproject.toml and runs them through uv', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'pyproject.toml'),
+        [
+          '[project]',
+          'name = "example"',
+          'dependencies = ["httpx>=0.27"]',
+          '',
+          '[dependency-groups]',
+          'dev = [',
+          '  "pytest>=8", # test runner',
+          '  "ruff",',
+          '  { include-group = "typing" },',
+          ']',
+          '',
+          '[tool.mypy]',
+          'strict = true',
+          '',
+        ].join('\n'),
+      );
+      await fs.writeFile(path.join(dir, 'uv.lock'), '');
+
+      const { config, warnings } = await generateGateConfig(dir);
+
+      expect(warnings).toEqual([]);
+      expect(config.gates.map((gate) => gate.command)).toEqual([
+        'uv run ruff check .',
+        'uv run mypy .',
+        'uv run pytest -q',
+      ]);
+    });
+  });
+
+  it('reads Poetry dependency groups and falls back to tox', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'pyproject.toml'),
+        [
+          '[tool.poetry.dependencies]',
+          'python = "^3.11"',
+          '',
+          '[tool.poetry.group.dev.dependencies]',
+          'mypy = { version = "^1.10", optional = true }',
+          '',
+        ].join('\n'),
+      );
+      await fs.writeFile(path.join(dir, 'poetry.lock'), '');
+      await fs.writeFile(
+        path.join(dir, 'tox.ini'),
+        '[tox]\nenv_list = py312\n',
+      );
+
+      const { config } = await generateGateConfig(dir);
+
+      expect(config.gates.map((gate) => gate.command)).toEqual([
+        'poetry run mypy .',
+        'tox -e py',
+      ]);
+    });
+  });
+
+  it('writes reviewed choices and installs the hook in the chosen settings', async () => {
+    await withTempDir(async (dir) => {
+      await fs.writeFile(
+        path.join(dir, 'package.json'),
+        JSON.stringify({ scripts: { lint: 'eslint .', test: 'vitest run' } }),
+      );
+
+      const result = await initConfigFile({
+        cwd: dir,
+        review: async ({ config }) => ({
+          config: {
+            ...config,
+            gates: config.gates.filter((gate) => gate.name === 'test'),
+          },
+          hookScope: 'project',
+        }),
+      });
+
+      const written = JSON.parse(
+        await fs.readFile(path.join(dir, DEFAULT_CONFIG_FILENAME), 'utf8'),
+      ) as { gates: Array<{ name: string }> };
+      expect(written.gates.map((gate) => gate.name)).toEqual(['test']);
+      expect(result.hookSettingsPath).toBe(
+        path.join(dir, '.claude', 'settings.json'),
+      );
+      const settings = JSON.parse(
+        await fs.readFile(path.join(dir, '.claude', 'settings.json'), 'utf8'),
+      ) as { hooks: Record<string, unknown> };
+      expect(Object.keys(settings.hooks)).toEqual(['Stop']);
+    });
+  });
+
+  it('refuses to overwrite settings that do not parse', async () => {
+    await withTempDir(async (dir) => {
+      const settingsPath = path.join(dir, '.claude', 'settings.local.json');
+      await fs.mkdir(path.dirname(settingsPath));
+      await fs.writeFile(settingsPath, '{ "permissions": { ');
+
+      const result = await initConfigFile({ cwd: dir });
+
+      expect(result.created).toBe(true);
+      expect(result.hookConfigured).toBe(false);
+      expect(result.hookError).toContain('could not be parsed');
+      expect(await fs.readFile(settingsPath, 'utf8')).toBe(
+        '{ "permissions": { ',
+      );
+    });
+  });
+
+  it('leaves hook entries it does not own untouched', async () => {
+    await withTempDir(async (dir) => {
+      const settingsPath = path.join(dir, '.claude', 'settings.local.json');
+      await fs.mkdir(path.dirname(settingsPath));
+      const original = `${JSON.stringify(
+        { hooks: { Stop: [{ matcher: '' }] } },
+        null,
+        2,
+      )}\n`;
+      await fs.writeFile(settingsPath, original);
+
+      const result = await initConfigFile({ cwd: dir });
+
+      expect(result.created).toBe(true);
+      expect(result.hookConfigured).toBe(false);
+      expect(result.hookError).toContain("without a 'hooks' array");
+      expect(await fs.readFile(settingsPath, 'utf8')).toBe(original);
+    });
+  });
+
+  it('recognizes equivalent hook commands and keeps other entries', async () => {
+    await withTempDir(async (dir) => {
+      const settingsPath = path.join(dir, '.claude', 'settings.json');
+      await fs.mkdir(path.dirname(settingsPath));
+      const original = `${JSON.stringify(
+        {
+          hooks: {
+            Stop: [
+              { matcher: {}, hooks: [{ type: 'command', command: 'true' }] },
+              {
+                hooks: [
+                  { type: 'command', command: 'pnpm exec ralph-gate --hook' },
+                ],
+              },
+            ],
+            SubagentStop: [
+              {
+                hooks: [
+                  {
+                    type: 'command',
+                    command:
+                      '/repo/node_modules/.bin/ralph-gate --hook SubagentStop',
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        null,
+        2,
+      )}\n`;
+      await fs.writeFile(settingsPath, original);
+
+      const result = await initConfigFile({ cwd: dir, hookScope: 'project' });
+
+      expect(result.hookAlreadyExists).toBe(true);
+      expect(result.warnings.join('\n')).toContain('object matcher');
+      expect(await fs.readFile(settingsPath, 'utf8')).toBe(original);
+    });
+  });
+
+  it('sets the hook timeout and reports the settings diff', async () => {
+    await withTempDir(async (dir) => {
+      const planned = await initConfigFile({
+        cwd: dir,
+        print: true,
+        hookTimeout: 300,
+      });
+      expect(planned.hookDiff).toMatch(/^\+ +"timeout": 300$/m);
+      await expect(
+        fs.access(path.join(dir, '.claude', 'settings.local.json')),
+      ).rejects.toThrow();
+
+      await initConfigFile({ cwd: dir, hookTimeout: 300 });
+      const updated = await initConfigFile({
+        cwd: dir,
+        force: true,
+        hookTimeout: 600,
+      });
+
+      expect(updated.hookConfigured).toBe(true);
+      expect(updated.hookDiff).toMatch(/^- +"timeout": 300,?$/m);
+      expect(updated.hookDiff).toMatch(/^\+ +"timeout": 600,?$/m);
+    });
+  });
+
+  it('installs hooks for every event the gates run on', () => {
+    expect(
+      getConfigHookEvents({
+        gates: [{ name: 'test', command: 'npm test' }],
+      }),
+    ).toEqual(['Stop']);
+    expect(
+      getConfigHookEvents({
+        gates: [
+          {
+            name: 'test',
+            command: 'npm test',
+            events: ['Stop', 'SubagentStop'],
+          },
+        ],
+      }),
+    ).toEqual(['Stop', 'SubagentStop']);
+    expect(
+      getConfigHookEvents({
+        gates: [
+          { name: 'lint-file', command: 'eslint', events: ['PostToolUse'] },
+        ],
+      }),
+    ).toEqual(['Stop', 'PostToolUse']);
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { orderGatesAdaptively } from '../src/ordering.js';
+import type { Gate, GateStats, HistoryStats } from '../src/types.js';
+
+function stats(gates: Array<[string, number, number, number]>): HistoryStats {
+  return {
+    runs: 10,
+    passRate: 0.5,
+    mostFrequentFirstFailure: null,
+    gates: gates.map(
+      ([name, runs, passRate, p50DurationMs]): GateStats => ({
+        name,
+        runs,
+        skipped: 0,
+        passRate,
+        p50DurationMs,
+        p95DurationMs: p50DurationMs,
+        flaky: 0,
+        firstFailures: 0,
+      }),
+    ),
+  };
+}
+
+const names = (gates: Gate[]) => gates.map((gate) => gate.name);
+
+describe('orderGatesAdaptively', () => {
+  it('runs likely, cheap failures first within a band', () => {
+    const gates: Gate[] = [
+      { name: 'lint', command: 'true', order: 10 },
+      { name: 'typecheck', command: 'true', order: 10 },
+      { name: 'test', command: 'true', order: 10 },
+      { name: 'e2e', command: 'true', order: 50 },
+    ];
+    const history = stats([
+      ['lint', 18, 1, 1000],
+      ['typecheck', 18, 0.5, 4000],
+      ['test', 18, 0.9, 30000],
+      ['e2e', 18, 0, 1],
+    ]);
+
+    const { gates: ordered, estimates } = orderGatesAdaptively(gates, history);
+
+    // e2e fails cheaply every time, but its order pins it after the band
+    expect(names(ordered)).toEqual(['typecheck', 'lint', 'test', 'e2e']);
+    expect(estimates.get('lint')).toEqual({
+      runs: 18,
+      costMs: 1000,
+      failureRate: 0.05,
+    });
+  });
+
+  it('mixes orders inside a band but keeps dependencies and non-blocking gates last', () => {
+    const gates: Gate[] = [
+      { name: 'build', command: 'true', order: 10 },
+      { name: 'audit', command: 'true', order: 12, blocking: false },
+      { name: 'test', command: 'true', order: 15, dependsOn: ['build'] },
+      { name: 'fresh', command: 'true', order: 19 },
+    ];
+    const history = stats([
+      ['build', 8, 1, 5000],
+      ['audit', 8, 0, 10],
+      ['test', 8, 0.5, 100],
+    ]);
+
+    const { gates: ordered, estimates } = orderGatesAdaptively(
+      gates,
+      history,
+      10,
+    );
+
+    expect(names(ordered)).toEqual(['fresh', 'build', 'test', 'audit']);
+    expect(estimates.get('fresh')).toEqual({
+      runs: 0,
+      costMs: 100,
+      failureRate: 0.5,
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  formatJUnitReport,
+  formatSarifReport,
+  writeReports,
+} from '../src/reporters.js';
+import type { GateResult, GateRunSummary } from '../src/types.js';
+
+function result(overrides: Partial<GateResult>): GateResult {
+  return {
+    name: 'gate',
+    passed: true,
+    exitCode: 0,
+    stdout: '',
+    stderr: '',
+    durationMs: 10,
+    skipped: false,
+    blocking: true,
+    timedOut: false,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function summary(results: GateResult[]): GateRunSummary {
+  return {
+    passed: results.every((entry) => entry.passed),
+    timestamp: '2024-01-01T00:00:00.000Z',
+    totalDurationMs: 1500,
+    results,
+    firstFailure: results.find((entry) => !entry.passed) ?? null,
+    warnings: [],
+    cached: [],
+    flaky: [],
+  };
+}
+
+describe('formatJUnitReport', () => {
+  it('writes a testcase per gate with failures, skips and output', () => {
+    const report = formatJUnitReport(
+      summary([
+        result({ name: 'lint', durationMs: 250 }),
+        result({
+          name: 'test',
+          passed: false,
+          exitCode: 1,
+          stdout: 'expected <a> & "b"',
+          stderr: 'boom\u0007',
+        }),
+        result({
+          name: 'e2e',
+          skipped: true,
+          skipReason: 'fail-fast after blocking failure',
+        }),
+      ]),
+    );
+
+    expect(report).toContain(
+      '<testsuites name="ralph-gate" tests="3" failures="1" errors="0" skipped="1" time="1.500">',
+    );
+    expect(report).toContain(
+      '<testcase classname="ralph-gate" name="lint" time="0.250"/>',
+    );
+    expect(report).toContain(
+      '<failure message="failed (exit 1)" type="exit"></failure>',
+    );
+    expect(report).toContain(
+      '<system-out>expected &lt;a&gt; &amp; &quot;b&quot;</system-out>',
+    );
+    expect(report).toContain('<system-err>boom</system-err>');
+    expect(report).toContain(
+      '<skipped message="fail-fast after blocking failure"/>',
+    );
+  });
+
+  it('adds parsed diagnostics as failed testcases', () => {
+    const report = formatJUnitReport(
+      summary([
+        result({
+          name: 'typecheck',
+          passed: false,
+          exitCode: 2,
+          diagnostics: [
+            {
+              file: 'src/a.ts',
+              line: 3,
+              column: 7,
+              message: "Cannot find name 'x'.",
+              rule: 'TS2304',
+            },
+          ],
+        }),
+      ]),
+    );
+
+    expect(report).toContain('tests="2" failures="2"');
+    expect(report).toContain(
+      '<testcase classname="ralph-gate.typecheck" name="src/a.ts:3:7" file="src/a.ts" time="0.000">',
+    );
+    expect(report).toContain(
+      '<failure message="Cannot find name &apos;x&apos;." type="TS2304"/>',
+    );
+  });
+});
+
+describe('formatSarifReport', () => {
+  it('turns diagnostics into results and falls back to one per gate', () => {
+    const report = JSON.parse(
+      formatSarifReport(
+        summary([
+          result({
+            name: 'lint',
+            passed: false,
+            exitCode: 1,
+            blocking: false,
+            diagnostics: [
+              {
+                file: 'src/a.js',
+                line: 1,
+                column: 10,
+                message: "'x' is unused",
+                rule: 'no-unused-vars',
+              },
+            ],
+          }),
+          result({ name: 'test', passed: false, exitCode: 1, stderr: 'boom' }),
+          result({ name: 'e2e', skipped: true }),
+        ]),
+      ),
+    );
+
+    expect(report.version).toBe('2.1.0');
+    expect(report.runs).toHaveLength(2);
+    expect(report.runs[0].tool.driver).toEqual({
+      name: 'lint',
+      rules: [{ id: 'no-unused-vars' }],
+    });
+    expect(report.runs[0].results).toEqual([
+      {
+        ruleId: 'no-unused-vars',
+        level: 'warning',
+        message: { text: "'x' is unused" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'src/a.js', uriBaseId: '%SRCROOT%' },
+              region: { startLine: 1, startColumn: 10 },
+            },
+          },
+        ],
+      },
+    ]);
+    expect(report.runs[1].tool.driver.rules).toEqual([
+      { id: 'ralph-gate/test' },
+    ]);
+    expect(report.runs[1].results).toEqual([
+      {
+        ruleId: 'ralph-gate/test',
+        level: 'error',
+        message: { text: "Gate 'test' failed (exit 1):\nboom" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: '.', uriBaseId: '%SRCROOT%' },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves out the exit code of a timed-out gate and points at the config', () => {
+    const report = JSON.parse(
+      formatSarifReport(
+        summary([
+          result({
+            name: 'e2e',
+            passed: false,
+            exitCode: null,
+            timedOut: true,
+            durationMs: 300,
+          }),
+        ]),
+        { configFile: 'gate.config.json' },
+      ),
+    );
+
+    expect(report.runs[0].invocations).toEqual([
+      { executionSuccessful: false },
+    ]);
+    expect(report.runs[0].results[0]).toMatchObject({
+      ruleId: 'ralph-gate/e2e',
+      message: {
+        text: "Gate 'e2e' timed out after 300ms:\nNo output captured.",
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: 'gate.config.json',
+              uriBaseId: '%SRCROOT%',
+            },
+            region: { startLine: 1 },
+          },
+        },
+      ],
+    });
+  });
+});
+
+describe('writeReports', () => {
+  it('creates the report directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-report-'));
+    try {
+      const outputPath = path.join(dir, 'reports', 'gates.xml');
+      await writeReports(summary([result({})]), [
+        { type: 'junit', outputPath },
+      ]);
+      expect(await fs.readFile(outputPath, 'utf8')).toContain('<testsuites');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -28,7 +28,7 @@ describe('ralph-gate init hook fix', () => {
       const brokenSettings = {
         hooks: {
           Stop: [
-            { type: 'command', command: 'old-command' }, // Legacy/Broken (no hooks array)
+            { type: 'command', command: 'npx ralph-gate --hook' }, // Legacy/Broken (no hooks array)
             // We can also test the "matcher object" case if we want, but legacy is the main one causing "hooks: undefined"
           ],
         },
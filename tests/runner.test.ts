@@ -1,3 +1,6 @@
+import { promises as fs, readFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { describe, expect, it } from 'vitest';
 import { runGates } from '../src/runner.js';
 import type { Gate } from '../src/types.js';
@@ -8,6 +11,21 @@ function cmd(code: string): string {
   return `${node} -e "${code}"`;
 }
 
+// Orphans may linger as zombies when nothing reaps them; those are dead too
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf8');
+    return stat.slice(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+  } catch {
+    return true;
+  }
+}
+
 describe('runGates', () => {
   it('records blocking failures and skips later blocking gates', async () => {
     const gates: Gate[] = [
@@ -49,4 +67,274 @@ describe('runGates', () => {
 
     expect(summary.firstFailure?.stderr).toContain('boom');
   });
+
+  it('kills the process tree when a gate exceeds its timeout', async () => {
+    const gates: Gate[] = [
+      {
+        name: 'hang',
+        command: `${cmd('setInterval(() => {}, 1000)')} & ${cmd('setInterval(() => {}, 1000)')}; wait`,
+        timeoutMs: 200,
+      },
+    ];
+
+    const summary = await runGates(gates, { failFast: true, killGraceMs: 200 });
+
+    expect(summary.passed).toBe(false);
+    expect(summary.firstFailure?.timedOut).toBe(true);
+    expect(summary.firstFailure?.durationMs).toBeLessThan(5000);
+  });
+
+  it('applies the run-wide timeout when a gate has none', async () => {
+    const gates: Gate[] = [
+      { name: 'hang', command: cmd('setInterval(() => {}, 1000)') },
+    ];
+
+    const summary = await runGates(gates, { timeoutMs: 200 });
+
+    expect(summary.results[0]?.timedOut).toBe(true);
+    expect(summary.results[0]?.passed).toBe(false);
+  });
+
+  it('runs independent gates in parallel up to the concurrency limit', async () => {
+    const sleep = cmd('setTimeout(() => {}, 400)');
+    const gates: Gate[] = [
+      { name: 'a', command: sleep },
+      { name: 'b', command: sleep },
+      { name: 'c', command: sleep },
+    ];
+
+    const summary = await runGates(gates, { concurrency: 3 });
+
+    expect(summary.passed).toBe(true);
+    expect(summary.totalDurationMs).toBeLessThan(1000);
+    expect(summary.results.map((result) => result.name)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('waits for dependencies and skips dependents of failed gates', async () => {
+    const started: string[] = [];
+    const gates: Gate[] = [
+      { name: 'e2e', command: cmd('process.exit(0)'), dependsOn: ['build'] },
+      { name: 'build', command: cmd('process.exit(1)') },
+      { name: 'lint', command: cmd('process.exit(0)'), blocking: false },
+    ];
+
+    const summary = await runGates(gates, {
+      concurrency: 2,
+      onGateStart: (gate) => started.push(gate.name),
+    });
+
+    expect(started).not.toContain('e2e');
+    expect(summary.firstFailure?.name).toBe('build');
+    expect(summary.results.map((result) => result.name)).toEqual([
+      'e2e',
+      'build',
+      'lint',
+    ]);
+    expect(summary.results[0]?.skipped).toBe(true);
+  });
+
+  it('fails the run when a blocking gate depends on a failed non-blocking gate', async () => {
+    const gates: Gate[] = [
+      { name: 'build', command: cmd('process.exit(1)'), blocking: false },
+      { name: 'e2e', command: cmd('process.exit(0)'), dependsOn: ['build'] },
+    ];
+
+    const summary = await runGates(gates);
+
+    expect(summary.passed).toBe(false);
+    expect(summary.firstFailure?.name).toBe('e2e');
+    expect(summary.firstFailure?.skipped).toBe(true);
+    expect(summary.firstFailure?.skipReason).toBe(
+      "dependency 'build' did not pass",
+    );
+    expect(summary.warnings).toEqual(['build']);
+  });
+
+  it('cancels in-flight blocking siblings on failure when failFast is set', async () => {
+    const gates: Gate[] = [
+      { name: 'slow', command: cmd('setInterval(() => {}, 1000)') },
+      { name: 'fail', command: cmd('process.exit(1)') },
+    ];
+
+    const summary = await runGates(gates, {
+      concurrency: 2,
+      failFast: true,
+      killGraceMs: 200,
+    });
+
+    expect(summary.firstFailure?.name).toBe('fail');
+    expect(summary.results[0]?.skipped).toBe(true);
+    expect(summary.totalDurationMs).toBeLessThan(5000);
+  });
+
+  it('forwards SIGINT to every running gate and its descendants', async () => {
+    const pidFile = path.join(
+      os.tmpdir(),
+      `ralph-gate-signal-${process.pid}-${Date.now()}`,
+    );
+    const script = [
+      "const { spawn } = require('child_process');",
+      "const fs = require('fs');",
+      "const child = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });",
+      `fs.writeFileSync(${JSON.stringify(pidFile)}, String(child.pid));`,
+      'setInterval(() => {}, 1000);',
+    ].join('\n');
+    const scriptPath = `${pidFile}.cjs`;
+    await fs.writeFile(scriptPath, script);
+    // Stands in for the CLI's own handling, so the test process survives
+    const keepAlive = () => {};
+    process.on('SIGINT', keepAlive);
+
+    try {
+      const run = runGates([
+        { name: 'server', command: `${node} ${scriptPath}` },
+      ]);
+      let descendant = 0;
+      while (!descendant) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        descendant = Number(await fs.readFile(pidFile, 'utf8').catch(() => 0));
+      }
+
+      process.emit('SIGINT', 'SIGINT');
+      const summary = await run;
+
+      expect(summary.passed).toBe(false);
+      expect(process.listenerCount('SIGINT')).toBe(1);
+      const deadline = Date.now() + 5000;
+      while (isAlive(descendant) && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(isAlive(descendant)).toBe(false);
+    } finally {
+      process.off('SIGINT', keepAlive);
+      await fs.rm(pidFile, { force: true });
+      await fs.rm(scriptPath, { force: true });
+    }
+  });
+
+  it('skips gates whose paths match no changed files', async () => {
+    const gates: Gate[] = [
+      { name: 'docs', command: cmd('process.exit(1)'), paths: ['docs/**'] },
+      { name: 'src', command: cmd('process.exit(0)'), paths: ['src/**/*.ts'] },
+      { name: 'after', command: cmd('process.exit(0)'), dependsOn: ['docs'] },
+    ];
+
+    const summary = await runGates(gates, {
+      changedFiles: ['src/runner.ts', 'README.md'],
+    });
+
+    expect(summary.passed).toBe(true);
+    expect(summary.results[0]?.skipped).toBe(true);
+    expect(summary.results[0]?.skipReason).toContain('no changed files match');
+    expect(summary.results[1]?.skipped).toBe(false);
+    expect(summary.results[2]?.skipped).toBe(false);
+  });
+
+  it('retries failures and marks gates that pass late as flaky', async () => {
+    const counter = path.join(
+      os.tmpdir(),
+      `ralph-gate-retry-${process.pid}-${Date.now()}`,
+    );
+    const flakyScript = [
+      "const fs = require('fs');",
+      `const file = ${JSON.stringify(counter)};`,
+      "const n = fs.existsSync(file) ? Number(fs.readFileSync(file, 'utf8')) : 0;",
+      'fs.writeFileSync(file, String(n + 1));',
+      'process.exit(n < 1 ? 1 : 0);',
+    ].join(' ');
+    const scriptPath = `${counter}.cjs`;
+    await fs.writeFile(scriptPath, flakyScript);
+
+    try {
+      const gates: Gate[] = [
+        {
+          name: 'e2e',
+          command: `${node} ${scriptPath}`,
+          retries: 2,
+          retryDelayMs: 10,
+        },
+        {
+          name: 'broken',
+          command: cmd('process.exit(3)'),
+          retries: 1,
+          blocking: false,
+        },
+      ];
+
+      const summary = await runGates(gates);
+
+      expect(summary.passed).toBe(true);
+      expect(summary.results[0]?.flaky).toBe(true);
+      expect(summary.results[0]?.attempts?.map((a) => a.exitCode)).toEqual([
+        1, 0,
+      ]);
+      expect(summary.results[1]?.attempts).toHaveLength(2);
+      expect(summary.results[1]?.flaky).toBe(false);
+      expect(summary.flaky).toEqual(['e2e']);
+    } finally {
+      await fs.rm(counter, { force: true });
+      await fs.rm(scriptPath, { force: true });
+    }
+  });
+
+  it('applies per-gate cwd, env and shell overrides', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-cwd-'));
+    const print = cmd(
+      'console.log(process.cwd(), process.env.GATE_MODE, process.env.HOME)',
+    );
+    try {
+      const gates: Gate[] = [
+        {
+          name: 'merged',
+          command: print,
+          cwd: dir,
+          env: { GATE_MODE: 'test' },
+          shell: '/bin/sh',
+        },
+        {
+          name: 'replaced',
+          command: print,
+          env: { GATE_MODE: 'clean' },
+          envMode: 'replace',
+        },
+      ];
+
+      const summary = await runGates(gates);
+
+      const [merged, replaced] = summary.results;
+      expect(merged?.stdout).toContain(await fs.realpath(dir));
+      expect(merged?.stdout).toContain('test');
+      expect(merged?.stdout).toContain(String(process.env.HOME));
+      expect(replaced?.stdout.trim()).toBe(`${process.cwd()} clean undefined`);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('attaches parsed diagnostics to failing gates', async () => {
+    const gates: Gate[] = [
+      {
+        name: 'typecheck',
+        command:
+          'echo "src/a.ts(3,7): error TS2304: Cannot find name \'x\'."; exit 2',
+        parser: 'tsc',
+      },
+    ];
+
+    const summary = await runGates(gates, { cwd: process.cwd() });
+
+    expect(summary.firstFailure?.diagnostics).toEqual([
+      {
+        file: 'src/a.ts',
+        line: 3,
+        column: 7,
+        message: "Cannot find name 'x'.",
+        rule: 'TS2304',
+      },
+    ]);
+  });
 });
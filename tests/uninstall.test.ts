@@ -0,0 +1,127 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG_FILENAME, initConfigFile } from '../src/init.js';
+import { uninstall } from '../src/uninstall.js';
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ralph-gate-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function missing(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(
+    () => false,
+    () => true,
+  );
+}
+
+describe('ralph-gate uninstall', () => {
+  it('removes only what init added', async () => {
+    await withTempDir(async (dir) => {
+      const settingsPath = path.join(dir, '.claude', 'settings.json');
+      await fs.mkdir(path.dirname(settingsPath));
+      const other = { type: 'command', command: 'npm run notify' };
+      const original = `${JSON.stringify(
+        {
+          permissions: { allow: ['Bash(npm test)'] },
+          hooks: { Stop: [{ hooks: [other] }] },
+        },
+        null,
+        2,
+      )}\n`;
+      await fs.writeFile(settingsPath, original);
+      await fs.writeFile(path.join(dir, '.gitignore'), 'node_modules\n');
+
+      await initConfigFile({ cwd: dir, hookScope: 'project' });
+      const result = await uninstall({ cwd: dir });
+
+      expect(result.errors).toEqual([]);
+      expect(result.actions.map((action) => action.kind)).toEqual([
+        'update',
+        'update',
+      ]);
+      expect(result.actions[0]?.diff).toContain('ralph-gate --hook');
+      expect(result.actions[1]?.diff).toBe(
+        '  node_modules\n- # ralph-gate\n- gate-results-*.json',
+      );
+      expect(await fs.readFile(settingsPath, 'utf8')).toBe(original);
+      expect(await fs.readFile(path.join(dir, '.gitignore'), 'utf8')).toBe(
+        'node_modules\n',
+      );
+      expect(await missing(path.join(dir, DEFAULT_CONFIG_FILENAME))).toBe(
+        false,
+      );
+    });
+  });
+
+  it('keeps a gate-results pattern the user wrote', async () => {
+    await withTempDir(async (dir) => {
+      const gitignore = '# Gate result files\ngate-results-*.json\n';
+      await fs.writeFile(path.join(dir, '.gitignore'), gitignore);
+
+      const result = await uninstall({ cwd: dir, dryRun: true });
+
+      expect(result.actions).toEqual([]);
+      expect(await fs.readFile(path.join(dir, '.gitignore'), 'utf8')).toBe(
+        gitignore,
+      );
+    });
+  });
+
+  it('deletes files that only held ralph-gate entries', async () => {
+    await withTempDir(async (dir) => {
+      await initConfigFile({ cwd: dir });
+      await fs.mkdir(path.join(dir, 'gate-results'));
+      await fs.writeFile(
+        path.join(dir, 'gate-results', 'gate-results-1.json'),
+        '{}',
+      );
+
+      const result = await uninstall({
+        cwd: dir,
+        removeConfig: true,
+        removeResults: true,
+      });
+
+      expect(result.actions.every((action) => action.kind === 'delete')).toBe(
+        true,
+      );
+      expect(await fs.readdir(dir)).toEqual(['.claude']);
+      expect(await uninstall({ cwd: dir })).toEqual({
+        actions: [],
+        errors: [],
+      });
+    });
+  });
+
+  it('changes nothing on a dry run or with unparseable settings', async () => {
+    await withTempDir(async (dir) => {
+      await initConfigFile({ cwd: dir });
+      const before = await fs.readdir(dir);
+
+      const planned = await uninstall({
+        cwd: dir,
+        removeConfig: true,
+        dryRun: true,
+      });
+      expect(planned.actions.map((action) => action.path)).toEqual([
+        path.join(dir, '.claude', 'settings.local.json'),
+        path.join(dir, '.gitignore'),
+        path.join(dir, DEFAULT_CONFIG_FILENAME),
+      ]);
+      expect(await fs.readdir(dir)).toEqual(before);
+
+      const settingsPath = path.join(dir, '.claude', 'settings.json');
+      await fs.writeFile(settingsPath, '{ "hooks": ');
+      const result = await uninstall({ cwd: dir, scopes: ['project'] });
+      expect(result.errors[0]).toContain('could not be parsed');
+      expect(await fs.readFile(settingsPath, 'utf8')).toBe('{ "hooks": ');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { promises as fs } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { validateConfig } from '../src/validate.js';
+
+describe('validateConfig', () => {
+  it('reports every problem with its JSON path', () => {
+    const issues = validateConfig({
+      gates: [
+        { name: 'lint', command: 'npm run lint' },
+        { name: 'test', command: '', timeoutMs: -1 },
+        { name: 'build', command: 'npm run build', blockng: false },
+      ],
+      concurrency: 0,
+    });
+
+    expect(issues.map((issue) => [issue.severity, issue.path])).toEqual([
+      ['error', 'concurrency'],
+      ['error', 'gates[1].command'],
+      ['error', 'gates[1].timeoutMs'],
+      ['warning', 'gates[2].blockng'],
+    ]);
+    expect(issues[3]?.message).toBe(
+      "Unknown field 'blockng'. Did you mean 'blocking'?",
+    );
+  });
+
+  it('flags duplicate names and unknown references', () => {
+    const issues = validateConfig({
+      gates: [
+        { name: 'lint', command: 'true' },
+        { name: 'lint', command: 'true', dependsOn: ['bild'] },
+      ],
+      profiles: { quick: { gates: ['lnt'], fast: true } },
+    });
+
+    expect(issues).toEqual([
+      {
+        path: 'gates[1].name',
+        message: "Duplicate gate name 'lint' (also used by gates[0]).",
+        severity: 'error',
+      },
+      {
+        path: 'gates[1].dependsOn[0]',
+        message: "Gate 'lint' depends on unknown gate 'bild'.",
+        severity: 'error',
+      },
+      {
+        path: 'profiles.quick.fast',
+        message: "Unknown field 'fast'.",
+        severity: 'warning',
+      },
+      {
+        path: 'profiles.quick.gates[0]',
+        message: "Profile 'quick' references unknown gate 'lnt'.",
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('accepts every field the published schema declares', async () => {
+    const schema = JSON.parse(
+      await fs.readFile(
+        new URL('../schema/gate.config.schema.json', import.meta.url),
+        'utf8',
+      ),
+    );
+    const sample = (properties: Record<string, unknown>) =>
+      Object.fromEntries(Object.keys(properties).map((key) => [key, null]));
+
+    const issues = validateConfig({
+      ...sample(schema.properties),
+      gates: [
+        {
+          ...sample(schema.definitions.gate.properties),
+          name: 'lint',
+          command: 'true',
+        },
+      ],
+      profiles: { quick: sample(schema.definitions.profile.properties) },
+    });
+
+    expect(issues.filter((issue) => issue.severity === 'warning')).toEqual([]);
+  });
+
+  it('checks that hook output stop-on gates exist', () => {
+    const issues = validateConfig({
+      gates: [{ name: 'secrets', command: 'gitleaks detect' }],
+      hookOutput: { stopOn: ['secrets', 'secret'] },
+    });
+
+    expect(issues).toEqual([
+      {
+        path: 'hookOutput.stopOn[1]',
+        message: "'hookOutput.stopOn' references unknown gate 'secret'.",
+        severity: 'error',
+      },
+    ]);
+  });
+});
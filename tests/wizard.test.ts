@@ -0,0 +1,71 @@
+import { PassThrough } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import type { InitChoices } from '../src/init.js';
+import { runInitWizard } from '../src/wizard.js';
+
+function detected(): InitChoices {
+  return {
+    config: {
+      gates: [
+        { name: 'lint', order: 10, command: 'npm run lint' },
+        { name: 'test', order: 30, command: 'npm run test' },
+        { name: 'build', order: 40, command: 'npm run build' },
+      ],
+      failFast: true,
+    },
+    hookScope: 'local',
+  };
+}
+
+async function answer(choices: InitChoices, lines: string[]) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let printed = '';
+  output.on('data', (chunk: Buffer) => {
+    printed += chunk.toString();
+  });
+  input.end(lines.map((line) => `${line}\n`).join(''));
+  const result = await runInitWizard(choices, { input, output });
+  return { result, printed };
+}
+
+describe('runInitWizard', () => {
+  it('keeps the detected gates and hook location on Enter', async () => {
+    const { result, printed } = await answer(detected(), ['', '']);
+
+    expect(result).toEqual(detected());
+    expect(printed).toContain('[x] lint');
+    expect(printed).toContain('Choice [1]: ');
+  });
+
+  it('toggles, reorders, marks non-blocking and adds gates', async () => {
+    const { result } = await answer(detected(), [
+      '3',
+      'b 1',
+      'o 2 5',
+      'a',
+      'audit',
+      'npm audit',
+      '50',
+      '',
+      '2',
+    ]);
+
+    expect(result.hookScope).toBe('project');
+    expect(result.config.gates).toEqual([
+      { name: 'test', order: 5, command: 'npm run test' },
+      { name: 'lint', order: 10, command: 'npm run lint', blocking: false },
+      { name: 'build', order: 40, command: 'npm run build', enabled: false },
+      { name: 'audit', order: 50, command: 'npm audit' },
+    ]);
+  });
+
+  it('can skip the hook and accepts defaults when input ends', async () => {
+    const skipped = await answer(detected(), ['', '4']);
+    expect(skipped.result.hookScope).toBeNull();
+
+    const ended = await answer(detected(), ['1']);
+    expect(ended.result.hookScope).toBe('local');
+    expect(ended.result.config.gates[0]?.enabled).toBe(false);
+  });
+});